@@ -2,6 +2,18 @@ import { Switch, Route } from "wouter";
 import { Home } from "@/pages/Home";
 import { Auth } from "@/pages/Auth";
 import { Dashboard } from "@/pages/Dashboard";
+import { Trash } from "@/pages/Trash";
+import { AnalysisDetail } from "@/pages/AnalysisDetail";
+import { Lesions } from "@/pages/Lesions";
+import { LesionDetail } from "@/pages/LesionDetail";
+import { Exams } from "@/pages/Exams";
+import { ExamDetail } from "@/pages/ExamDetail";
+import { RiskFactors } from "@/pages/RiskFactors";
+import { AdminUsers } from "@/pages/AdminUsers";
+import { AdminAudit } from "@/pages/AdminAudit";
+import { ReviewQueue } from "@/pages/ReviewQueue";
+import { Patients } from "@/pages/Patients";
+import { PatientDetail } from "@/pages/PatientDetail";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
@@ -13,6 +25,18 @@ function App() {
         <Route path="/" component={Home} />
         <Route path="/auth" component={Auth} />
         <Route path="/dashboard" component={Dashboard} />
+        <Route path="/trash" component={Trash} />
+        <Route path="/analysis/:id" component={AnalysisDetail} />
+        <Route path="/lesions" component={Lesions} />
+        <Route path="/lesions/:id" component={LesionDetail} />
+        <Route path="/exams" component={Exams} />
+        <Route path="/exams/:id" component={ExamDetail} />
+        <Route path="/risk-factors" component={RiskFactors} />
+        <Route path="/patients" component={Patients} />
+        <Route path="/patients/:id" component={PatientDetail} />
+        <Route path="/review" component={ReviewQueue} />
+        <Route path="/admin/users" component={AdminUsers} />
+        <Route path="/admin/audit" component={AdminAudit} />
       </Switch>
       <Toaster />
     </QueryClientProvider>
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Scan } from "lucide-react";
+import type { LesionRegion } from "@db/schema";
+import { Toggle } from "@/components/ui/toggle";
+import { cn } from "@/lib/utils";
+
+interface AnnotatedImageProps {
+  src: string;
+  alt: string;
+  regions: LesionRegion[] | null;
+  className?: string;
+}
+
+// Top-left corner of a region, where its label is anchored
+function regionOrigin(region: LesionRegion): [number, number] {
+  if (region.type === "box") return [region.x, region.y];
+  return [
+    Math.min(...region.points.map(([x]) => x)),
+    Math.min(...region.points.map(([, y]) => y)),
+  ];
+}
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+// Image with the model's suspicious regions drawn over it. Region coordinates
+// are fractions of the image size, so the overlay stretches with the image.
+export default function AnnotatedImage({ src, alt, regions, className }: AnnotatedImageProps) {
+  const [showRegions, setShowRegions] = useState(true);
+  const visible = showRegions ? regions ?? [] : [];
+
+  return (
+    <div className={cn("relative", className)}>
+      <img src={src} alt={alt} className="block w-full h-auto rounded-md" />
+
+      {visible.length > 0 && (
+        <>
+          <svg
+            className="absolute inset-0 h-full w-full pointer-events-none"
+            viewBox="0 0 1 1"
+            preserveAspectRatio="none"
+          >
+            {visible.map((region, index) =>
+              region.type === "box" ? (
+                <rect
+                  key={index}
+                  x={region.x}
+                  y={region.y}
+                  width={region.width}
+                  height={region.height}
+                  className="fill-red-500/10 stroke-red-500"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ) : (
+                <polygon
+                  key={index}
+                  points={region.points.map(([x, y]) => `${x},${y}`).join(" ")}
+                  className="fill-red-500/10 stroke-red-500"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              )
+            )}
+          </svg>
+          {visible.map((region, index) => {
+            const [x, y] = regionOrigin(region);
+            return (
+              <span
+                key={index}
+                className="absolute -translate-y-full rounded-sm bg-red-500 px-1 text-xs text-white pointer-events-none"
+                style={{ left: percent(x), top: percent(y) }}
+              >
+                {region.label} ({(region.confidence * 100).toFixed(0)}%)
+              </span>
+            );
+          })}
+        </>
+      )}
+
+      {regions && regions.length > 0 && (
+        <Toggle
+          size="sm"
+          pressed={showRegions}
+          onPressedChange={setShowRegions}
+          aria-label="Show suspicious regions"
+          className="absolute bottom-2 right-2 bg-white/80 hover:bg-white data-[state=on]:bg-white"
+        >
+          <Scan className="h-4 w-4 mr-1" />
+          Regions
+        </Toggle>
+      )}
+    </div>
+  );
+}
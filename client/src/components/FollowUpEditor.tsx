@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch, queryClient } from "@/lib/queryClient";
+import type { Analysis } from "@/lib/analysis";
+
+interface FollowUpEditorProps {
+  analysis: Analysis;
+}
+
+// Shows the suggested follow-up date and lets the user move or clear it
+export default function FollowUpEditor({ analysis }: FollowUpEditorProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  const saveFollowUpDate = async (followUpDate: Date | null) => {
+    try {
+      const response = await apiFetch(`/api/analysis/${analysis.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ followUpDate }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${analysis.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${analysis.id}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/follow-ups"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis/history"] });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Could not change the follow-up date",
+      });
+    }
+  };
+
+  const current = analysis.followUpDate ? new Date(analysis.followUpDate) : undefined;
+
+  return (
+    <div className="flex justify-between items-center">
+      <span className="font-medium">Follow-up:</span>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm">
+            <CalendarIcon className="h-4 w-4 mr-2" />
+            {current ? format(current, "PP") : "Not scheduled"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="single"
+            selected={current}
+            onSelect={(day) => day && saveFollowUpDate(day)}
+            disabled={{ before: new Date() }}
+            initialFocus
+          />
+          {current && (
+            <div className="border-t p-2">
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => saveFollowUpDate(null)}>
+                Clear follow-up
+              </Button>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format, isBefore, isSameDay, startOfDay } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { resultColor, type Analysis } from "@/lib/analysis";
+import { resultLabel } from "@db/categories";
+import { siteLabel } from "@db/sites";
+
+// Calendar of the user's upcoming (and recently missed) follow-ups
+export default function FollowUpPanel() {
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+
+  const { data: followUps, isLoading } = useQuery<Analysis[]>({
+    queryKey: ["/api/follow-ups"],
+  });
+
+  const dates = (followUps ?? []).map(analysis => new Date(analysis.followUpDate!));
+  const today = startOfDay(new Date());
+  const shown = (followUps ?? []).filter(analysis =>
+    !selectedDay || isSameDay(new Date(analysis.followUpDate!), selectedDay)
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Upcoming Follow-ups</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          modifiers={{ followUp: dates }}
+          modifiersClassNames={{ followUp: "font-bold text-primary underline" }}
+          className="rounded-md border w-fit mx-auto"
+        />
+
+        {isLoading ? (
+          <p className="text-sm">Loading follow-ups...</p>
+        ) : shown.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {selectedDay ? "No follow-ups on this day" : "No follow-ups scheduled"}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {shown.map(analysis => {
+              const date = new Date(analysis.followUpDate!);
+              return (
+                <li key={analysis.id}>
+                  <Link href={`/analysis/${analysis.id}`} className="flex justify-between text-sm hover:underline">
+                    <span className={resultColor(analysis.result)}>
+                      {resultLabel(analysis.result) ?? "Analysis"}
+                      {analysis.site && ` · ${siteLabel(analysis.site)}`}
+                    </span>
+                    <span className={isBefore(date, today) ? "text-destructive font-medium" : "text-gray-500"}>
+                      {isBefore(date, today) ? "Overdue · " : ""}{format(date, "PP")}
+                    </span>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,94 @@
 import { useState, useRef } from "react";
+import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
 import { Progress } from "@/components/ui/progress";
-import { Camera, Upload, Search, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Camera,
+  Upload,
+  Search,
+  Loader2,
+  AlertTriangle,
+  ArrowUp,
+  ArrowDown,
+  X,
+} from "lucide-react";
+import { apiFetch, queryClient } from "@/lib/queryClient";
+import { streamAnalysisEvents, type AnalysisEvent, type Lesion } from "@/lib/analysis";
+import MouthMap from "@/components/MouthMap";
+import PatientPicker from "@/components/PatientPicker";
+import { siteLabel, type AnatomicalSite } from "@db/sites";
+import { resultLabel } from "@db/categories";
+import { hasPermission } from "@db/roles";
+
+interface QualityIssue {
+  code: string;
+  message: string;
+  guidance: string;
+}
+
+// The issues a QUALITY_REJECTED failure reports in its details
+function qualityIssuesOf(details: unknown): QualityIssue[] {
+  if (typeof details !== "object" || details === null || !("issues" in details)) return [];
+  return Array.isArray(details.issues) ? details.issues : [];
+}
+
+const STATUS_POLL_INTERVAL_MS = 1000;
+// Stop waiting for an exam after this long; its result still shows up on the Exams page
+const EXAM_POLL_TIMEOUT_MS = 20 * 60 * 1000;
+
+const STAGE_PROGRESS: Record<string, number> = {
+  uploading: 10,
+  queued: 20,
+  preprocessing: 35,
+  quality_check: 50,
+  analyzing: 65,
+  parsing: 85,
+  saving: 92,
+  done: 100,
+};
+
+const STAGE_LABELS: Record<string, string> = {
+  uploading: "Uploading image...",
+  queued: "Uploaded, waiting to start...",
+  preprocessing: "Preparing image...",
+  quality_check: "Checking image quality...",
+  analyzing: "Analyzing image...",
+  parsing: "Reading results...",
+  saving: "Saving results...",
+  done: "Done",
+};
+
+type TerminalEvent = Extract<AnalysisEvent, { type: "complete" | "failed" }>;
+
+interface ExamImage {
+  id: string;
+  file: File;
+  previewUrl: string;
+  site: AnatomicalSite | null;
+}
+
+const MAX_EXAM_IMAGES = 12;
+
+const UNTRACKED = "none";
+const NEW_LESION = "new";
+
+function lesionName(lesion: Lesion) {
+  return lesion.label || siteLabel(lesion.site) || "Unnamed lesion";
+}
 
 export default function ImageUpload() {
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
@@ -10,15 +96,106 @@ export default function ImageUpload() {
   const [isUploading, setIsUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [isCameraActive, setIsCameraActive] = useState(false);
+  const [qualityIssues, setQualityIssues] = useState<QualityIssue[]>([]);
+  const [stage, setStage] = useState("uploading");
+  const [liveExplanation, setLiveExplanation] = useState("");
+  const [isExamMode, setIsExamMode] = useState(false);
+  const [examImages, setExamImages] = useState<ExamImage[]>([]);
+  const [activeExamImageId, setActiveExamImageId] = useState<string | null>(null);
+  const [site, setSite] = useState<AnatomicalSite | null>(null);
+  const [lesionChoice, setLesionChoice] = useState(UNTRACKED);
+  // Kept between captures, since staff usually take several images of one patient
+  const [patientId, setPatientId] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { data: currentUser } = useCurrentUser();
+  const canPickPatient = !!currentUser && hasPermission(currentUser.role, "patients:manage");
+
+  const { data: lesions } = useQuery<Lesion[]>({
+    queryKey: ["/api/lesions"],
+  });
+  // Only lesions of the patient being captured, or the user's own without one
+  const patientLesions = lesions?.filter(lesion => lesion.patientId === patientId);
+
+  const handlePatientChange = (id: string | null) => {
+    setPatientId(id);
+    setLesionChoice(UNTRACKED);
+  };
+
+  // A new capture either starts tracking a lesion or is added to an existing one
+  const resolveLesionId = async () => {
+    if (lesionChoice === UNTRACKED) return null;
+    if (lesionChoice !== NEW_LESION) return lesionChoice;
+
+    const response = await apiFetch("/api/lesions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ site: site ?? undefined, patientId: patientId ?? undefined }),
+    });
+    if (!response.ok) {
+      throw new Error(`Could not start tracking the lesion: ${response.status}`);
+    }
+    const lesion: Lesion = await response.json();
+    setLesionChoice(lesion.id);
+    return lesion.id;
+  };
 
   const handleImageSelect = (file: File) => {
+    setQualityIssues([]);
+    if (isExamMode) {
+      addExamImages([file]);
+      return;
+    }
     setSelectedImage(file);
     const imageUrl = URL.createObjectURL(file);
     setPreviewUrl(imageUrl);
   };
 
+  const addExamImages = (files: File[]) => {
+    const room = MAX_EXAM_IMAGES - examImages.length;
+    if (files.length > room) {
+      toast({
+        variant: "destructive",
+        title: "Too Many Images",
+        description: `An exam can include at most ${MAX_EXAM_IMAGES} images`
+      });
+    }
+
+    const added = files.slice(0, Math.max(room, 0)).map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      previewUrl: URL.createObjectURL(file),
+      site: null,
+    }));
+    setExamImages(images => [...images, ...added]);
+    if (added.length > 0) setActiveExamImageId(added[added.length - 1].id);
+  };
+
+  const tagExamImage = (site: AnatomicalSite) => {
+    setExamImages(images => images.map(image =>
+      image.id === activeExamImageId ? { ...image, site } : image
+    ));
+  };
+
+  const moveExamImage = (index: number, offset: number) => {
+    setExamImages(images => {
+      const target = index + offset;
+      if (target < 0 || target >= images.length) return images;
+      const reordered = [...images];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const removeExamImage = (id: string) => {
+    setExamImages(images => {
+      const removed = images.find(image => image.id === id);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return images.filter(image => image.id !== id);
+    });
+  };
+
   const startCamera = async () => {
     try {
       console.log("Requesting camera access");
@@ -76,6 +253,144 @@ export default function ImageUpload() {
     }, 'image/jpeg');
   };
 
+  const showStage = (stage: string) => {
+    setStage(stage);
+    setProgress(STAGE_PROGRESS[stage] ?? STAGE_PROGRESS.queued);
+  };
+
+  // Fallback when the event stream drops: poll the job until the worker finishes it
+  const pollAnalysis = async (id: string): Promise<TerminalEvent> => {
+    while (true) {
+      const response = await apiFetch(`/api/analysis/${id}/status`);
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      const status = await response.json();
+      if (status.status === "complete") {
+        return { type: "complete", analysis: status.analysis };
+      }
+      if (status.status === "failed") {
+        return { type: "failed", error: status.error, errorCode: status.errorCode, errorDetails: status.errorDetails };
+      }
+
+      showStage(status.stage);
+      await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+    }
+  };
+
+  // Follow the job's live events, showing each stage and the explanation as it is written
+  const waitForAnalysis = async (id: string): Promise<TerminalEvent> => {
+    let outcome: TerminalEvent | null = null;
+
+    try {
+      await streamAnalysisEvents(id, (event) => {
+        if (event.type === "stage") {
+          if (event.stage === "analyzing") setLiveExplanation("");
+          showStage(event.stage);
+        } else if (event.type === "text") {
+          setLiveExplanation(text => text + event.delta);
+        } else {
+          outcome = event;
+        }
+      });
+    } catch (error) {
+      console.error("Analysis event stream failed:", error);
+    }
+
+    return outcome ?? pollAnalysis(id);
+  };
+
+  const waitForExam = async (id: string, total: number) => {
+    const deadline = Date.now() + EXAM_POLL_TIMEOUT_MS;
+    while (true) {
+      if (Date.now() > deadline) {
+        throw new Error("The exam is taking longer than expected. Check the Exams page for its result.");
+      }
+
+      const response = await apiFetch(`/api/exams/${id}`);
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      const exam = await response.json();
+      if (exam.status === "complete" || exam.status === "failed") {
+        return exam;
+      }
+
+      const finished = exam.analyses.filter(
+        (analysis: { status: string }) => analysis.status === "complete" || analysis.status === "failed"
+      ).length;
+      setStage("analyzing");
+      setProgress(STAGE_PROGRESS.queued + ((100 - STAGE_PROGRESS.queued) * finished) / total);
+      await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+    }
+  };
+
+  const handleSubmitExam = async () => {
+    if (examImages.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "No Images",
+        description: "Add at least one image to the exam"
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    setQualityIssues([]);
+    showStage("uploading");
+
+    try {
+      const formData = new FormData();
+      for (const image of examImages) {
+        formData.append("images", image.file);
+      }
+      formData.append("sites", JSON.stringify(examImages.map(image => image.site)));
+      if (patientId) formData.append("patientId", patientId);
+
+      const response = await apiFetch("/api/exams", {
+        method: "POST",
+        body: formData
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Server error: ${response.status}`);
+      }
+
+      const { id } = await response.json();
+      const exam = await waitForExam(id, examImages.length);
+      setProgress(100);
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/exams"] });
+
+      toast({
+        variant: exam.status === "failed" ? "destructive" : "default",
+        title: exam.status === "failed" ? "Exam Failed" : `Exam Result: ${resultLabel(exam.result)}`,
+        description: exam.summary,
+        action: (
+          <ToastAction altText="View exam" onClick={() => setLocation(`/exams/${id}`)}>
+            View
+          </ToastAction>
+        )
+      });
+
+      examImages.forEach(image => URL.revokeObjectURL(image.previewUrl));
+      setExamImages([]);
+      setActiveExamImageId(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Exam Failed",
+        description: error instanceof Error ? error.message : "Failed to submit exam"
+      });
+    } finally {
+      setIsUploading(false);
+      setProgress(0);
+    }
+  };
+
   const handleAnalyze = async () => {
     if (!selectedImage) {
       toast({
@@ -87,31 +402,61 @@ export default function ImageUpload() {
     }
 
     setIsUploading(true);
-    setProgress(25);
+    setQualityIssues([]);
+    setLiveExplanation("");
+    showStage("uploading");
 
     try {
       const formData = new FormData();
       formData.append("image", selectedImage);
+      if (site) formData.append("site", site);
+      if (patientId) formData.append("patientId", patientId);
+      const lesionId = await resolveLesionId();
+      if (lesionId) formData.append("lesionId", lesionId);
 
-      const response = await fetch("/api/analysis", {
+      const response = await apiFetch("/api/analysis", {
         method: "POST",
         body: formData
       });
 
       if (!response.ok) {
-        throw new Error(`Server error: ${response.status}`);
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Server error: ${response.status}`);
       }
 
+      const { id } = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis/history"] });
+
+      const status = await waitForAnalysis(id);
       setProgress(100);
-      const result = await response.json();
-      
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lesions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/follow-ups"] });
+
+      if (status.type === "failed") {
+        const issues = status.errorCode === "QUALITY_REJECTED" ? qualityIssuesOf(status.errorDetails) : [];
+        if (issues.length > 0) {
+          setQualityIssues(issues);
+          return;
+        }
+        toast({
+          variant: "destructive",
+          title: status.errorCode === "ANALYSIS_INCONCLUSIVE" ? "Analysis Inconclusive" : "Analysis Failed",
+          description: status.error
+        });
+        return;
+      }
+
+      const result = status.analysis;
       toast({
         title: "Analysis Complete",
-        description: result.message
+        description: `Result: ${resultLabel(result.result)} (${((result.confidence ?? 0) * 100).toFixed(1)}% confidence)`
       });
 
       setSelectedImage(null);
       setPreviewUrl(null);
+      setSite(null);
+      setLesionChoice(UNTRACKED);
     } catch (error) {
       toast({
         variant: "destructive",
@@ -121,11 +466,29 @@ export default function ImageUpload() {
     } finally {
       setIsUploading(false);
       setProgress(0);
+      setLiveExplanation("");
     }
   };
 
   return (
     <div className="w-full max-w-2xl mx-auto p-6 space-y-6">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="exam-mode"
+          checked={isExamMode}
+          onCheckedChange={setIsExamMode}
+          disabled={isUploading}
+        />
+        <Label htmlFor="exam-mode">Multi-site exam</Label>
+      </div>
+
+      {canPickPatient && (
+        <div className="space-y-2">
+          <Label>Patient</Label>
+          <PatientPicker value={patientId} onChange={handlePatientChange} disabled={isUploading} />
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-4">
         <Button
           variant="outline"
@@ -152,10 +515,16 @@ export default function ImageUpload() {
         id="file-upload"
         type="file"
         accept="image/*"
+        multiple={isExamMode}
         className="hidden"
         onChange={(e) => {
-          const file = e.target.files?.[0];
-          if (file) handleImageSelect(file);
+          const files = Array.from(e.target.files ?? []);
+          if (isExamMode) {
+            addExamImages(files);
+          } else if (files[0]) {
+            handleImageSelect(files[0]);
+          }
+          e.target.value = "";
         }}
       />
 
@@ -178,7 +547,112 @@ export default function ImageUpload() {
         </div>
       )}
 
-      {previewUrl && !isCameraActive && (
+      {qualityIssues.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Please retake the photo</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-2">
+              {qualityIssues.map((issue) => (
+                <li key={issue.code}>
+                  <span className="font-medium">{issue.message}.</span>{" "}
+                  {issue.guidance}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isExamMode && examImages.length > 0 && !isCameraActive && (
+        <div className="space-y-4">
+          <ul className="space-y-2">
+            {examImages.map((image, index) => (
+              <li
+                key={image.id}
+                onClick={() => setActiveExamImageId(image.id)}
+                className={`flex items-center gap-3 rounded-lg border p-2 cursor-pointer ${
+                  image.id === activeExamImageId ? "border-primary bg-primary/5" : ""
+                }`}
+              >
+                <img
+                  src={image.previewUrl}
+                  alt={`Exam image ${index + 1}`}
+                  className="h-16 w-16 rounded-md object-cover"
+                />
+                <div className="flex-1">
+                  <div className="text-sm font-medium">Image {index + 1}</div>
+                  <div className="text-xs text-gray-500">
+                    {siteLabel(image.site) ?? "Site not tagged"}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    moveExamImage(index, -1);
+                  }}
+                  disabled={isUploading || index === 0}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    moveExamImage(index, 1);
+                  }}
+                  disabled={isUploading || index === examImages.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeExamImage(image.id);
+                  }}
+                  disabled={isUploading}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+
+          {activeExamImageId && (
+            <MouthMap
+              value={examImages.find(image => image.id === activeExamImageId)?.site ?? null}
+              onChange={tagExamImage}
+              disabled={isUploading}
+            />
+          )}
+
+          <Button
+            className="w-full"
+            onClick={handleSubmitExam}
+            disabled={isUploading}
+          >
+            {isUploading ? (
+              <>
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Analyzing exam...
+              </>
+            ) : (
+              <>
+                <Search className="h-5 w-5 mr-2" />
+                Analyze Exam ({examImages.length} {examImages.length === 1 ? "image" : "images"})
+              </>
+            )}
+          </Button>
+        </div>
+      )}
+
+      {!isExamMode && previewUrl && !isCameraActive && (
         <div className="space-y-4">
           <div className="rounded-lg overflow-hidden bg-gray-100">
             <img
@@ -188,6 +662,26 @@ export default function ImageUpload() {
             />
           </div>
 
+          <MouthMap value={site} onChange={setSite} disabled={isUploading} />
+
+          <div className="space-y-2">
+            <Label>Lesion tracking</Label>
+            <Select value={lesionChoice} onValueChange={setLesionChoice} disabled={isUploading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNTRACKED}>Don't track this capture</SelectItem>
+                <SelectItem value={NEW_LESION}>Start tracking a new lesion</SelectItem>
+                {patientLesions?.map(lesion => (
+                  <SelectItem key={lesion.id} value={lesion.id}>
+                    Add to: {lesionName(lesion)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <Button 
             className="w-full"
             onClick={handleAnalyze}
@@ -209,7 +703,15 @@ export default function ImageUpload() {
       )}
 
       {isUploading && (
-        <Progress value={progress} className="h-2" />
+        <div className="space-y-2">
+          <Progress value={progress} className="h-2" />
+          <p className="text-sm text-gray-500">{STAGE_LABELS[stage] ?? "Processing..."}</p>
+          {liveExplanation && (
+            <p className="text-sm whitespace-pre-wrap rounded-md bg-gray-50 p-3">
+              {liveExplanation}
+            </p>
+          )}
+        </div>
       )}
     </div>
   );
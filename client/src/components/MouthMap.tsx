@@ -0,0 +1,74 @@
+import { ANATOMICAL_SITES, siteLabel, type AnatomicalSite } from "@db/sites";
+import { cn } from "@/lib/utils";
+
+// Schematic open-mouth view as seen by the examiner facing the patient, so the
+// patient's right side is drawn on the left
+const REGIONS: { site: AnatomicalSite; shape: JSX.Element }[] = [
+  { site: "buccal_mucosa_right", shape: <path d="M38,72 Q18,125 38,178 L66,166 Q52,125 66,84 Z" /> },
+  { site: "buccal_mucosa_left", shape: <path d="M262,72 Q282,125 262,178 L234,166 Q248,125 234,84 Z" /> },
+  { site: "gingiva_upper", shape: <path d="M62,74 Q150,34 238,74 L226,86 Q150,52 74,86 Z" /> },
+  { site: "hard_palate", shape: <ellipse cx="150" cy="84" rx="58" ry="17" /> },
+  { site: "soft_palate", shape: <ellipse cx="150" cy="110" rx="42" ry="8" /> },
+  { site: "retromolar_trigone_right", shape: <circle cx="80" cy="112" r="10" /> },
+  { site: "retromolar_trigone_left", shape: <circle cx="220" cy="112" r="10" /> },
+  { site: "gingiva_lower", shape: <path d="M62,176 Q150,222 238,176 L226,166 Q150,204 74,166 Z" /> },
+  { site: "floor_of_mouth", shape: <path d="M86,160 Q150,198 214,160 L204,154 Q150,184 96,154 Z" /> },
+  { site: "tongue_lateral_right", shape: <path d="M102,126 Q88,144 104,160 L114,152 Q104,142 112,128 Z" /> },
+  { site: "tongue_lateral_left", shape: <path d="M198,126 Q212,144 196,160 L186,152 Q196,142 188,128 Z" /> },
+  { site: "tongue_dorsal", shape: <ellipse cx="150" cy="140" rx="36" ry="16" /> },
+  { site: "tongue_ventral", shape: <ellipse cx="150" cy="165" rx="30" ry="6" /> },
+  { site: "upper_lip", shape: <path d="M30,64 Q150,-4 270,64 Q150,30 30,64 Z" /> },
+  { site: "lower_lip", shape: <path d="M30,186 Q150,254 270,186 Q150,220 30,186 Z" /> },
+];
+
+interface MouthMapProps {
+  value: string | null;
+  onChange: (site: AnatomicalSite) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export default function MouthMap({ value, onChange, disabled, className }: MouthMapProps) {
+  return (
+    <div className={cn("space-y-2", className)}>
+      <svg
+        viewBox="0 0 300 250"
+        className="w-full max-w-sm mx-auto"
+        role="group"
+        aria-label="Oral cavity map"
+      >
+        {REGIONS.map(({ site, shape }) => {
+          const selected = value === site;
+          const label = ANATOMICAL_SITES.find(entry => entry.id === site)!.label;
+          return (
+            <g
+              key={site}
+              role="button"
+              tabIndex={disabled ? -1 : 0}
+              aria-label={label}
+              aria-pressed={selected}
+              onClick={() => !disabled && onChange(site)}
+              onKeyDown={(e) => {
+                if (!disabled && (e.key === "Enter" || e.key === " ")) {
+                  e.preventDefault();
+                  onChange(site);
+                }
+              }}
+              className={cn(
+                "stroke-white stroke-[1.5] outline-none transition-colors",
+                selected ? "fill-primary" : "fill-rose-200 hover:fill-rose-300 focus:fill-rose-300",
+                disabled ? "cursor-not-allowed opacity-60" : "cursor-pointer"
+              )}
+            >
+              <title>{label}</title>
+              {shape}
+            </g>
+          );
+        })}
+      </svg>
+      <p className="text-center text-sm text-gray-500">
+        {siteLabel(value) ?? "Tap the map to tag where the photo was taken"}
+      </p>
+    </div>
+  );
+}
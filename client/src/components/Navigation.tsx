@@ -1,23 +1,48 @@
 import { useState } from "react";
-import { LogOut, Home, Camera, History, Menu } from "lucide-react";
+import { LogOut, Home, Camera, History, Menu, Trash2, Activity, ClipboardList, Users, Stethoscope, Contact, ScrollText, Images } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useLocation, Link } from "wouter";
 import { logOut } from "@/lib/firebase";
+import { queryClient } from "@/lib/queryClient";
+import NotificationMenu from "@/components/NotificationMenu";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { hasPermission, type Permission } from "@db/roles";
+
+interface NavItem {
+  href: string;
+  label: string;
+  icon: typeof Home;
+  // Shown only to roles with this permission
+  permission?: Permission;
+}
 
 export default function Navigation() {
   const [location, setLocation] = useLocation();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const { data: currentUser } = useCurrentUser();
 
   const handleLogout = async () => {
     await logOut();
+    queryClient.clear();
     setLocation("/");
   };
 
-  const navItems = [
+  const allNavItems: NavItem[] = [
     { href: "/dashboard", label: "Home", icon: Home },
     { href: "/camera", label: "Camera", icon: Camera },
-    { href: "/history", label: "History", icon: History }
+    { href: "/history", label: "History", icon: History },
+    { href: "/exams", label: "Exams", icon: Images },
+    { href: "/lesions", label: "Lesions", icon: Activity },
+    { href: "/risk-factors", label: "Risk Factors", icon: ClipboardList },
+    { href: "/trash", label: "Trash", icon: Trash2 },
+    { href: "/patients", label: "Patients", icon: Contact, permission: "patients:manage" },
+    { href: "/review", label: "Review", icon: Stethoscope, permission: "analyses:review" },
+    { href: "/admin/users", label: "Users", icon: Users, permission: "users:manage" },
+    { href: "/admin/audit", label: "Audit Log", icon: ScrollText, permission: "audit:read" }
   ];
+  const navItems = allNavItems.filter(({ permission }) =>
+    !permission || (currentUser && hasPermission(currentUser.role, permission))
+  );
 
   return (
     <nav className="border-b bg-background sticky top-0 z-50">
@@ -42,6 +67,8 @@ export default function Navigation() {
                 </Button>
               </Link>
             ))}
+
+            <NotificationMenu />
             
             <Button variant="ghost" onClick={handleLogout}>
               <LogOut className="mr-2 h-4 w-4" />
@@ -50,13 +77,15 @@ export default function Navigation() {
           </div>
 
           {/* Mobile Navigation */}
-          <Button
-            variant="ghost"
-            className="md:hidden"
-            onClick={() => setIsMenuOpen(!isMenuOpen)}
-          >
-            <Menu className="h-6 w-6" />
-          </Button>
+          <div className="flex items-center md:hidden">
+            <NotificationMenu />
+            <Button
+              variant="ghost"
+              onClick={() => setIsMenuOpen(!isMenuOpen)}
+            >
+              <Menu className="h-6 w-6" />
+            </Button>
+          </div>
         </div>
 
         {/* Mobile Menu */}
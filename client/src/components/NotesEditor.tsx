@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch, queryClient } from "@/lib/queryClient";
+import type { Analysis } from "@/lib/analysis";
+
+interface Revision {
+  id: string;
+  changedByEmail: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  patientNotes: "Notes",
+  followUpDate: "Follow-up date",
+  site: "Site",
+};
+
+function describeValue(field: string, value: unknown) {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (field === "followUpDate") return format(new Date(value as string), "PP");
+  return String(value);
+}
+
+interface NotesEditorProps {
+  analysis: Analysis;
+}
+
+// Free-text notes on an analysis, with the history of every edit to it
+export default function NotesEditor({ analysis }: NotesEditorProps) {
+  const [notes, setNotes] = useState(analysis.patientNotes ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const { data: revisions } = useQuery<Revision[]>({
+    queryKey: [`/api/analysis/${analysis.id}/revisions`],
+  });
+
+  const isDirty = notes !== (analysis.patientNotes ?? "");
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await apiFetch(`/api/analysis/${analysis.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ patientNotes: notes }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Server error: ${response.status}`);
+      }
+
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${analysis.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${analysis.id}/revisions`] });
+      toast({ title: "Notes Saved" });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Could not save the notes",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-medium">Notes</h3>
+      <Textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Symptoms, how long the lesion has been there, anything a clinician should know..."
+        maxLength={5000}
+        rows={4}
+      />
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save notes
+        </Button>
+      </div>
+
+      {revisions && revisions.length > 0 && (
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="px-0">
+              <History className="h-4 w-4 mr-2" />
+              Revision history ({revisions.length})
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ol className="space-y-3 border-l pl-4 text-xs">
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <div className="text-gray-500">
+                    {format(new Date(revision.createdAt), "PPp")} · {revision.changedByEmail}
+                  </div>
+                  {Object.entries(revision.changes).map(([field, { from, to }]) => (
+                    <div key={field}>
+                      <span className="font-medium">{FIELD_LABELS[field] ?? field}:</span>{" "}
+                      <span className="line-through text-gray-400">{describeValue(field, from)}</span>{" "}
+                      → {describeValue(field, to)}
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ol>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { Bell } from "lucide-react";
+import { useLocation } from "wouter";
+import { formatDistance } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { apiFetch, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+interface Notification {
+  id: string;
+  analysisId: string | null;
+  title: string;
+  body: string;
+  createdAt: string;
+  readAt: string | null;
+}
+
+// In-app notifications such as follow-up reminders
+export default function NotificationMenu() {
+  const [, setLocation] = useLocation();
+
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const unread = notifications?.filter(notification => !notification.readAt).length ?? 0;
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.readAt) {
+      await apiFetch(`/api/notifications/${notification.id}/read`, { method: "POST" }).catch(error => {
+        console.error("Failed to mark notification as read:", error);
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    }
+    if (notification.analysisId) {
+      setLocation(`/analysis/${notification.analysisId}`);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 rounded-full bg-destructive px-1.5 text-xs text-white">
+              {unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications?.length === 0 && (
+          <div className="p-2 text-sm text-gray-500">No notifications</div>
+        )}
+        {notifications?.map(notification => (
+          <DropdownMenuItem
+            key={notification.id}
+            onSelect={() => handleOpen(notification)}
+            className={cn("flex flex-col items-start gap-1", !notification.readAt && "bg-primary/5")}
+          >
+            <span className="font-medium">{notification.title}</span>
+            <span className="text-xs text-gray-600">{notification.body}</span>
+            <span className="text-xs text-gray-400">
+              {formatDistance(new Date(notification.createdAt), new Date(), { addSuffix: true })}
+            </span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
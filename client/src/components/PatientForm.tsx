@@ -0,0 +1,93 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SEXES, patientSchema, type PatientDetails } from "@db/patients";
+
+const TEXT_FIELDS: { name: Exclude<keyof PatientDetails, "sex">; label: string; type?: string }[] = [
+  { name: "name", label: "Full name" },
+  { name: "dateOfBirth", label: "Date of birth", type: "date" },
+  { name: "mrn", label: "Medical record number" },
+  { name: "phone", label: "Phone", type: "tel" },
+  { name: "email", label: "Email", type: "email" },
+];
+
+interface PatientFormProps {
+  defaultValues?: Partial<PatientDetails>;
+  submitLabel: string;
+  onSubmit: (values: PatientDetails) => Promise<void>;
+}
+
+export default function PatientForm({ defaultValues, submitLabel, onSubmit }: PatientFormProps) {
+  const form = useForm<PatientDetails>({
+    resolver: zodResolver(patientSchema),
+    defaultValues: { sex: "unknown", ...defaultValues },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {TEXT_FIELDS.map(({ name, label, type }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <Input type={type ?? "text"} {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <FormField
+          control={form.control}
+          name="sex"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Sex</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {SEXES.map(sex => (
+                    <SelectItem key={sex.id} value={sex.id}>{sex.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
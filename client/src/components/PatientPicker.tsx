@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { Check, ChevronsUpDown, UserPlus } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+import type { Patient } from "@/lib/analysis";
+
+interface PatientPickerProps {
+  value: string | null;
+  onChange: (patientId: string | null) => void;
+  disabled?: boolean;
+}
+
+function describePatient(patient: Patient) {
+  return [
+    patient.dateOfBirth && `born ${format(parseISO(patient.dateOfBirth), "PP")}`,
+    patient.mrn && `MRN ${patient.mrn}`,
+  ].filter(Boolean).join(" · ");
+}
+
+// Choose which patient record a capture belongs to, searching by name or MRN
+export default function PatientPicker({ value, onChange, disabled }: PatientPickerProps) {
+  const [open, setOpen] = useState(false);
+  const { data: patients } = useQuery<Patient[]>({
+    queryKey: ["/api/patients"],
+  });
+
+  const selected = patients?.find(patient => patient.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+          disabled={disabled}
+        >
+          {selected ? selected.name : "No patient record (my own capture)"}
+          <ChevronsUpDown className="h-4 w-4 ml-2 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search by name or MRN..." />
+          <CommandList>
+            <CommandEmpty>No matching patients</CommandEmpty>
+            <CommandGroup>
+              <CommandItem
+                value="none"
+                onSelect={() => {
+                  onChange(null);
+                  setOpen(false);
+                }}
+              >
+                <Check className={cn("h-4 w-4 mr-2", value === null ? "opacity-100" : "opacity-0")} />
+                No patient record
+              </CommandItem>
+              {patients?.map(patient => (
+                <CommandItem
+                  key={patient.id}
+                  value={`${patient.name} ${patient.mrn ?? ""} ${patient.id}`}
+                  onSelect={() => {
+                    onChange(patient.id);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("h-4 w-4 mr-2", value === patient.id ? "opacity-100" : "opacity-0")} />
+                  <div>
+                    <div>{patient.name}</div>
+                    <div className="text-xs text-gray-500">{describePatient(patient)}</div>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+        <div className="border-t p-2">
+          <Link href="/patients">
+            <Button variant="ghost" size="sm" className="w-full">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add a patient
+            </Button>
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,52 @@
+import { AlertTriangle, CalendarClock, Eye, Stethoscope } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { Recommendation } from "@db/schema";
+import { referralLabel } from "@db/categories";
+import { cn } from "@/lib/utils";
+
+const ACTION_ICONS = {
+  self_monitor: Eye,
+  see_dentist: Stethoscope,
+  specialist_referral: AlertTriangle,
+};
+
+const URGENCY_STYLES: Record<string, string> = {
+  none: "border-green-200 bg-green-50 text-green-900",
+  routine: "border-amber-200 bg-amber-50 text-amber-900",
+  soon: "border-orange-300 bg-orange-50 text-orange-900",
+  urgent: "border-red-300 bg-red-50 text-red-900",
+};
+
+interface RecommendationPanelProps {
+  recommendation: Recommendation | null;
+  // The model's free-text advice, shown as supporting detail
+  details?: string | null;
+  className?: string;
+}
+
+export default function RecommendationPanel({ recommendation, details, className }: RecommendationPanelProps) {
+  if (!recommendation) return null;
+
+  const Icon = ACTION_ICONS[recommendation.action];
+  const timing = recommendation.action === "self_monitor"
+    ? `Re-check every ${recommendation.withinDays} days`
+    : `Within ${recommendation.withinDays} days`;
+
+  return (
+    <Alert className={cn(URGENCY_STYLES[recommendation.urgency], className)}>
+      <Icon className="h-4 w-4" />
+      <AlertTitle className="font-semibold">{recommendation.title}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <CalendarClock className="h-4 w-4" />
+          {timing} · {referralLabel(recommendation.urgency)}
+        </div>
+        <p className="text-sm">
+          <span className="font-medium">Why: </span>
+          {recommendation.reason}
+        </p>
+        {details && <p className="text-sm opacity-80">{details}</p>}
+      </AlertDescription>
+    </Alert>
+  );
+}
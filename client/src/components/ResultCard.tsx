@@ -1,28 +1,79 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Trash2 } from "lucide-react";
+import { Trash2, Loader2 } from "lucide-react";
+import { Link } from "wouter";
 import { formatDistance } from "date-fns";
-
-interface Analysis {
-  id: string;
-  imageUrl: string;
-  result: string;
-  confidence: number;
-  timestamp: Date;
-}
+import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { apiFetch, queryClient } from "@/lib/queryClient";
+import { resultColor, type Analysis } from "@/lib/analysis";
+import { siteLabel } from "@db/sites";
+import { resultLabel } from "@db/categories";
+import AnnotatedImage from "@/components/AnnotatedImage";
+import RiskScore from "@/components/RiskScore";
+import ReviewStatusBadge from "@/components/ReviewStatusBadge";
+import RecommendationPanel from "@/components/RecommendationPanel";
 
 interface ResultCardProps {
   analysis: Analysis;
 }
 
 export default function ResultCard({ analysis }: ResultCardProps) {
+  const { toast } = useToast();
+
+  const refreshAnalyses = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/analysis/history"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analysis/trash"] });
+  };
+
+  const handleUndo = async () => {
+    try {
+      const response = await apiFetch(`/api/analysis/${analysis.id}/restore`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      refreshAnalyses();
+    } catch (error) {
+      console.error("Failed to restore analysis:", error);
+      toast({
+        variant: "destructive",
+        title: "Restore Failed",
+        description: "Could not restore the analysis",
+      });
+    }
+  };
+
   const handleDelete = async () => {
     try {
-      await fetch(`/api/analysis/${analysis.id}`, {
+      const response = await apiFetch(`/api/analysis/${analysis.id}`, {
         method: "DELETE",
       });
+
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      refreshAnalyses();
+      toast({
+        title: "Analysis Deleted",
+        description: "The analysis was moved to the trash",
+        action: (
+          <ToastAction altText="Undo delete" onClick={handleUndo}>
+            Undo
+          </ToastAction>
+        ),
+      });
     } catch (error) {
       console.error("Failed to delete analysis:", error);
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: "Could not delete the analysis",
+      });
     }
   };
 
@@ -33,6 +84,9 @@ export default function ResultCard({ analysis }: ResultCardProps) {
           {formatDistance(new Date(analysis.timestamp), new Date(), {
             addSuffix: true,
           })}
+          {analysis.site && (
+            <div className="font-medium text-gray-700">{siteLabel(analysis.site)}</div>
+          )}
         </div>
         <Button
           variant="ghost"
@@ -44,25 +98,50 @@ export default function ResultCard({ analysis }: ResultCardProps) {
         </Button>
       </CardHeader>
       <CardContent className="p-4 pt-0">
-        <div className="aspect-video relative mb-4">
-          <img
+        {analysis.imageUrl ? (
+          <AnnotatedImage
             src={analysis.imageUrl}
             alt="Analysis"
-            className="rounded-md object-cover w-full h-full"
+            regions={analysis.regions}
+            className="mb-4"
           />
-        </div>
-        <div className="space-y-2">
-          <div className="flex justify-between items-center">
-            <span className="font-medium">Analysis Result:</span>
-            <span className={analysis.result === "Normal" ? "text-green-600" : "text-red-600"}>
-              {analysis.result}
-            </span>
+        ) : (
+          <div className="aspect-video rounded-md bg-gray-100 w-full mb-4" />
+        )}
+        {analysis.status === "complete" ? (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="font-medium">Analysis Result:</span>
+              <span className={resultColor(analysis.result)}>
+                {resultLabel(analysis.result)}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="font-medium">Confidence:</span>
+              <span>{((analysis.confidence ?? 0) * 100).toFixed(1)}%</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="font-medium">Review:</span>
+              <ReviewStatusBadge status={analysis.reviewStatus} />
+            </div>
+            <RiskScore score={analysis.riskScore} level={analysis.riskLevel} />
+            <RecommendationPanel recommendation={analysis.recommendation} />
+            <Link href={`/analysis/${analysis.id}`}>
+              <Button variant="link" size="sm" className="px-0">
+                View details
+              </Button>
+            </Link>
           </div>
-          <div className="flex justify-between items-center">
-            <span className="font-medium">Confidence:</span>
-            <span>{(analysis.confidence * 100).toFixed(1)}%</span>
+        ) : analysis.status === "failed" ? (
+          <div className="text-sm text-destructive">
+            {analysis.error ?? "Analysis failed"}
           </div>
-        </div>
+        ) : (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Analysis in progress...
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Check, Camera, Loader2, PenLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch, queryClient } from "@/lib/queryClient";
+import type { Analysis } from "@/lib/analysis";
+import { RESULT_CATEGORIES, SEVERITIES, resultCategory } from "@db/categories";
+import type { ReviewDecision } from "@db/review";
+
+interface ReviewDecisionFormProps {
+  analysis: Analysis;
+  onDecided: () => void;
+}
+
+// Confirm the AI result, override it with a corrected category, or ask the
+// patient for a new photo
+export default function ReviewDecisionForm({ analysis, onDecided }: ReviewDecisionFormProps) {
+  const [note, setNote] = useState("");
+  const [result, setResult] = useState(analysis.result ?? "");
+  const [severity, setSeverity] = useState(analysis.severity ?? "");
+  const [submitting, setSubmitting] = useState<ReviewDecision | null>(null);
+  const { toast } = useToast();
+
+  const allowedSeverities = resultCategory(result)?.severities ?? SEVERITIES;
+  const overrideChanges = result !== analysis.result || severity !== analysis.severity;
+
+  const handleDecision = async (decision: ReviewDecision) => {
+    setSubmitting(decision);
+    try {
+      const response = await apiFetch(`/api/review/${analysis.id}/decision`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          decision,
+          ...(decision === "override" ? { result, severity } : {}),
+          ...(note.trim() ? { note: note.trim() } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Server error: ${response.status}`);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/review/queue"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${analysis.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${analysis.id}/decisions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${analysis.id}/transitions`] });
+      toast({ title: "Decision Recorded" });
+      onDecided();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Decision Failed",
+        description: error instanceof Error ? error.message : "Could not record the decision",
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note for the record and, for retakes, for the patient"
+        maxLength={2000}
+        rows={3}
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          value={result}
+          onValueChange={(value) => {
+            setResult(value);
+            const severities = resultCategory(value)?.severities ?? SEVERITIES;
+            if (!(severities as readonly string[]).includes(severity)) setSeverity(severities[0]);
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Corrected category" />
+          </SelectTrigger>
+          <SelectContent>
+            {RESULT_CATEGORIES.map(category => (
+              <SelectItem key={category.id} value={category.id}>{category.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={severity} onValueChange={setSeverity}>
+          <SelectTrigger>
+            <SelectValue placeholder="Severity" />
+          </SelectTrigger>
+          <SelectContent>
+            {allowedSeverities.map(value => (
+              <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => handleDecision("confirm")} disabled={submitting !== null}>
+          {submitting === "confirm" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+          Confirm AI result
+        </Button>
+        <Button
+          variant="secondary"
+          onClick={() => handleDecision("override")}
+          disabled={submitting !== null || !result || !severity || !overrideChanges}
+        >
+          {submitting === "override" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PenLine className="h-4 w-4 mr-2" />}
+          Override
+        </Button>
+        <Button variant="outline" onClick={() => handleDecision("retake")} disabled={submitting !== null}>
+          {submitting === "retake" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Camera className="h-4 w-4 mr-2" />}
+          Request retake
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import ReviewStatusBadge from "@/components/ReviewStatusBadge";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch, queryClient } from "@/lib/queryClient";
+import type { Analysis } from "@/lib/analysis";
+import { resultLabel } from "@db/categories";
+import {
+  allowedTransitions,
+  DECISION_STATUSES,
+  reviewDecisionLabel,
+  reviewStatusLabel,
+  type ReviewRole,
+  type ReviewStatus,
+} from "@db/review";
+
+interface ReviewTransition {
+  id: string;
+  fromStatus: string;
+  toStatus: string;
+  actorRole: string;
+  actorEmail: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface ReviewDecisionRecord {
+  id: string;
+  decision: string;
+  result: string | null;
+  severity: string | null;
+  note: string | null;
+  reviewerEmail: string;
+  createdAt: string;
+}
+
+interface ReviewPanelProps {
+  analysis: Analysis;
+  role: ReviewRole;
+}
+
+// The review status of an analysis, the moves open to the current user and the
+// history of past moves
+export default function ReviewPanel({ analysis, role }: ReviewPanelProps) {
+  const [pending, setPending] = useState<ReviewStatus | null>(null);
+  const { toast } = useToast();
+
+  const { data: transitions } = useQuery<ReviewTransition[]>({
+    queryKey: [`/api/analysis/${analysis.id}/transitions`],
+  });
+
+  const { data: decisions } = useQuery<ReviewDecisionRecord[]>({
+    queryKey: [`/api/analysis/${analysis.id}/decisions`],
+  });
+
+  const handleTransition = async (to: ReviewStatus) => {
+    setPending(to);
+    try {
+      const response = await apiFetch(`/api/analysis/${analysis.id}/transitions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Server error: ${response.status}`);
+      }
+
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${analysis.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${analysis.id}/transitions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis/history"] });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Status Change Failed",
+        description: error instanceof Error ? error.message : "Could not change the review status",
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  // Decisions are recorded from the review queue, which keeps them apart from the AI output
+  const actions = allowedTransitions(analysis.reviewStatus, role)
+    .filter(to => !DECISION_STATUSES.includes(to));
+  const canDecide = allowedTransitions("under_review", role).some(to => DECISION_STATUSES.includes(to))
+    && (analysis.reviewStatus === "ai_complete" || analysis.reviewStatus === "under_review");
+  const latestDecision = decisions?.[0];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="font-medium">Review:</span>
+        <ReviewStatusBadge status={analysis.reviewStatus} />
+      </div>
+
+      {latestDecision && (
+        <div className="rounded-md border p-3 space-y-1">
+          <div className="font-medium">
+            Clinician: {reviewDecisionLabel(latestDecision.decision)}
+            {latestDecision.decision === "override" && ` → ${resultLabel(latestDecision.result)} (${latestDecision.severity})`}
+          </div>
+          {latestDecision.note && <p className="whitespace-pre-wrap">{latestDecision.note}</p>}
+          <div className="text-xs text-gray-500">
+            {latestDecision.reviewerEmail} · {format(new Date(latestDecision.createdAt), "PPp")}
+          </div>
+        </div>
+      )}
+
+      {(actions.length > 0 || canDecide) && (
+        <div className="flex flex-wrap gap-2 justify-end">
+          {actions.map(to => (
+            <Button
+              key={to}
+              size="sm"
+              variant="outline"
+              onClick={() => handleTransition(to)}
+              disabled={pending !== null}
+            >
+              {pending === to && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {to === "under_review" ? "Request review" : `Mark ${reviewStatusLabel(to)?.toLowerCase()}`}
+            </Button>
+          ))}
+          {canDecide && (
+            <Link href="/review">
+              <Button size="sm">Review in queue</Button>
+            </Link>
+          )}
+        </div>
+      )}
+
+      {transitions && transitions.length > 0 && (
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="px-0">
+              <History className="h-4 w-4 mr-2" />
+              Review history ({transitions.length})
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ol className="space-y-3 border-l pl-4 text-xs">
+              {transitions.map(transition => (
+                <li key={transition.id}>
+                  <div className="text-gray-500">
+                    {format(new Date(transition.createdAt), "PPp")} ·{" "}
+                    {transition.actorEmail ?? "Automated analysis"}
+                  </div>
+                  <div>
+                    {reviewStatusLabel(transition.fromStatus)} → {reviewStatusLabel(transition.toStatus)}
+                  </div>
+                  {transition.note && <div className="text-gray-600">{transition.note}</div>}
+                </li>
+              ))}
+            </ol>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+}
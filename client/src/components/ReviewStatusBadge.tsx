@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { reviewStatusLabel } from "@db/review";
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-gray-100 text-gray-700",
+  ai_complete: "bg-blue-100 text-blue-800",
+  under_review: "bg-yellow-100 text-yellow-800",
+  confirmed: "bg-green-100 text-green-800",
+  overridden: "bg-purple-100 text-purple-800",
+  dismissed: "bg-gray-100 text-gray-500",
+  closed: "bg-slate-200 text-slate-700",
+};
+
+interface ReviewStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+export default function ReviewStatusBadge({ status, className }: ReviewStatusBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn("border-0", STATUS_STYLES[status], className)}>
+      {reviewStatusLabel(status)}
+    </Badge>
+  );
+}
@@ -0,0 +1,101 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  ALCOHOL_OPTIONS,
+  BETEL_QUID_OPTIONS,
+  HPV_OPTIONS,
+  TOBACCO_OPTIONS,
+  riskFactorsSchema,
+  type RiskFactors,
+} from "@db/risk-factors";
+
+type ChoiceField = Exclude<keyof RiskFactors, "age">;
+
+const CHOICES: {
+  name: ChoiceField;
+  label: string;
+  description?: string;
+  options: readonly { id: string; label: string }[];
+}[] = [
+  { name: "tobacco", label: "Tobacco", description: "Smoked or smokeless", options: TOBACCO_OPTIONS },
+  { name: "betelQuid", label: "Betel quid / areca nut", description: "Including gutka and paan", options: BETEL_QUID_OPTIONS },
+  { name: "alcohol", label: "Alcohol", options: ALCOHOL_OPTIONS },
+  { name: "hpv", label: "HPV status", options: HPV_OPTIONS },
+];
+
+interface RiskFactorFormProps {
+  defaultValues?: Partial<RiskFactors>;
+  onSubmit: (values: RiskFactors) => Promise<void>;
+}
+
+export default function RiskFactorForm({ defaultValues, onSubmit }: RiskFactorFormProps) {
+  const form = useForm<RiskFactors>({
+    resolver: zodResolver(riskFactorsSchema),
+    defaultValues,
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="age"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Age</FormLabel>
+              <FormControl>
+                <Input type="number" min={1} max={120} {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {CHOICES.map(({ name, label, description, options }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                {description && <FormDescription>{description}</FormDescription>}
+                <FormControl>
+                  <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-1">
+                    {options.map(option => (
+                      <FormItem key={option.id} className="flex items-center space-x-3 space-y-0">
+                        <FormControl>
+                          <RadioGroupItem value={option.id} />
+                        </FormControl>
+                        <FormLabel className="font-normal">{option.label}</FormLabel>
+                      </FormItem>
+                    ))}
+                  </RadioGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save answers
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,31 @@
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+const LEVEL_STYLES: Record<string, string> = {
+  low: "bg-green-100 text-green-800",
+  moderate: "bg-yellow-100 text-yellow-800",
+  high: "bg-red-100 text-red-800",
+};
+
+interface RiskScoreProps {
+  score: number | null;
+  level: string | null;
+  className?: string;
+}
+
+// Composite of the image result and the questionnaire, scored on the server
+export default function RiskScore({ score, level, className }: RiskScoreProps) {
+  if (score === null || !level) return null;
+
+  return (
+    <div className={cn("flex justify-between items-center", className)}>
+      <Link href="/risk-factors" className="font-medium hover:underline">
+        Composite risk:
+      </Link>
+      <Badge variant="outline" className={cn("capitalize border-0", LEVEL_STYLES[level])}>
+        {level} ({score}/100)
+      </Badge>
+    </div>
+  );
+}
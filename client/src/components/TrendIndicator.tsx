@@ -0,0 +1,28 @@
+import { TrendingDown, TrendingUp, Minus } from "lucide-react";
+import type { Lesion } from "@/lib/analysis";
+import { cn } from "@/lib/utils";
+
+const TRENDS = {
+  improving: { label: "Improving", icon: TrendingDown, className: "text-green-600" },
+  stable: { label: "Stable", icon: Minus, className: "text-gray-600" },
+  worsening: { label: "Worsening", icon: TrendingUp, className: "text-red-600" },
+};
+
+interface TrendIndicatorProps {
+  trend: Lesion["trend"];
+  className?: string;
+}
+
+export default function TrendIndicator({ trend, className }: TrendIndicatorProps) {
+  if (!trend) {
+    return <span className={cn("text-sm text-gray-500", className)}>Not enough captures yet</span>;
+  }
+
+  const { label, icon: Icon, className: color } = TRENDS[trend];
+  return (
+    <span className={cn("inline-flex items-center text-sm font-medium", color, className)}>
+      <Icon className="h-4 w-4 mr-1" />
+      {label}
+    </span>
+  );
+}
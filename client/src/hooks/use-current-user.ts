@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Role } from "@db/roles";
+
+export interface CurrentUser {
+  firebaseId: string;
+  email: string;
+  role: Role;
+  clinicId: string | null;
+}
+
+// The signed-in user as the server sees them, role included
+export function useCurrentUser() {
+  return useQuery<CurrentUser>({ queryKey: ["/api/me"] });
+}
@@ -0,0 +1,124 @@
+import { apiFetch } from "@/lib/queryClient";
+import type { LesionComparison, LesionRegion, Recommendation } from "@db/schema";
+import { referralUrgency } from "@db/categories";
+
+export type AnalysisStatus = "pending" | "processing" | "complete" | "failed";
+
+export interface Analysis {
+  id: string;
+  userId: string;
+  patientId: string | null;
+  imageUrl: string | null;
+  result: string | null;
+  confidence: number | null;
+  severity: string | null;
+  referralUrgency: string | null;
+  site: string | null;
+  explanation: string | null;
+  recommendations: string | null;
+  recommendation: Recommendation | null;
+  findings: string[] | null;
+  regions: LesionRegion[] | null;
+  lesionId: string | null;
+  comparison: LesionComparison | null;
+  riskScore: number | null;
+  riskLevel: string | null;
+  followUpDate: string | null;
+  patientNotes: string | null;
+  status: AnalysisStatus;
+  // Where the analysis is in its review, see db/review.ts
+  reviewStatus: string;
+  reviewStatusChangedAt: string | null;
+  stage: string;
+  error: string | null;
+  timestamp: string;
+}
+
+const URGENCY_COLORS: Record<string, string> = {
+  none: "text-green-600",
+  routine: "text-amber-600",
+  soon: "text-orange-600",
+  urgent: "text-red-600",
+};
+
+// Text color for a result category, from green (no referral) to red (urgent)
+export function resultColor(result: string | null) {
+  return URGENCY_COLORS[referralUrgency(result) ?? ""] ?? "text-gray-600";
+}
+
+export interface Lesion {
+  id: string;
+  patientId: string | null;
+  site: string | null;
+  label: string | null;
+  createdAt: string;
+  trend: LesionComparison["trend"] | null;
+  // Captures of the lesion, oldest first
+  analyses: Analysis[];
+}
+
+// A multi-site screening visit, see POST /api/exams
+export interface Exam {
+  id: string;
+  status: string;
+  // Category of the exam's most urgent image
+  result: string | null;
+  severity: string | null;
+  summary: string | null;
+  timestamp: string;
+  completedAt: string | null;
+  // One analysis per image, in the order they were added
+  analyses: Analysis[];
+}
+
+export interface Patient {
+  id: string;
+  clinicId: string | null;
+  name: string;
+  dateOfBirth: string | null;
+  sex: string;
+  mrn: string | null;
+  phone: string | null;
+  email: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AnalysisEvent =
+  | { type: "stage"; stage: string; attempt?: number }
+  | { type: "text"; delta: string }
+  | { type: "complete"; analysis: Analysis }
+  | { type: "failed"; error: string; errorCode: string; errorDetails: unknown };
+
+// Read the server-sent event stream for an analysis. fetch is used instead of
+// EventSource because the request needs the Authorization header.
+export async function streamAnalysisEvents(
+  id: string,
+  onEvent: (event: AnalysisEvent) => void,
+  signal?: AbortSignal,
+) {
+  const response = await apiFetch(`/api/analysis/${id}/events`, { signal });
+  if (!response.ok || !response.body) {
+    throw new Error(`Server error: ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() ?? "";
+
+    for (const message of messages) {
+      const data = message
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("\n");
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
+}
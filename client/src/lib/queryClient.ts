@@ -1,12 +1,48 @@
 import { QueryClient } from "@tanstack/react-query";
+import { auth } from "@/lib/firebase";
+
+async function getAuthHeader(forceRefresh = false): Promise<Record<string, string>> {
+  await auth.authStateReady();
+  const user = auth.currentUser;
+  if (!user) return {};
+
+  const token = await user.getIdToken(forceRefresh);
+  return { Authorization: `Bearer ${token}` };
+}
+
+// fetch wrapper that attaches the Firebase ID token and retries once with a
+// refreshed token if the server reports it as expired
+export async function apiFetch(url: string, init: RequestInit = {}) {
+  const send = async (forceRefresh: boolean) => {
+    const headers = new Headers(init.headers);
+    for (const [key, value] of Object.entries(await getAuthHeader(forceRefresh))) {
+      headers.set(key, value);
+    }
+    return fetch(url, { credentials: "include", ...init, headers });
+  };
+
+  const res = await send(false);
+  if (res.status !== 401) return res;
+
+  const body = await res.clone().json().catch(() => null);
+  if (body?.code !== "auth/id-token-expired") return res;
+
+  return send(true);
+}
+
+// Image URLs are signed links that expire after 15 minutes (IMAGE_URL_TTL_SECONDS on
+// the server). Queries returning them are refetched when opened again after 5
+// minutes and every 5 minutes while open, so no URL shown is older than 10.
+export const IMAGE_QUERY_OPTIONS = {
+  staleTime: 5 * 60 * 1000,
+  refetchInterval: 5 * 60 * 1000,
+};
 
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       queryFn: async ({ queryKey }) => {
-        const res = await fetch(queryKey[0] as string, {
-          credentials: "include",
-        });
+        const res = await apiFetch(queryKey[0] as string);
 
         if (!res.ok) {
           if (res.status >= 500) {
@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { auth } from "@/lib/firebase";
+import { apiFetch } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import Navigation from "@/components/Navigation";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { hasPermission, roleLabel } from "@db/roles";
+import { AUDIT_ACTIONS, AUDIT_RESOURCES, auditActionLabel, auditResourceLabel } from "@db/audit";
+
+interface AuditEntry {
+  id: number;
+  actorId: string | null;
+  actorEmail: string | null;
+  actorRole: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  ip: string | null;
+  createdAt: string;
+}
+
+interface AuditPage {
+  items: AuditEntry[];
+  nextCursor: number | null;
+}
+
+interface AuditVerification {
+  checked: number;
+  valid: boolean;
+  brokenAt?: number;
+  reason?: string;
+  head: { id: number; hash: string } | null;
+}
+
+interface AuditFilters {
+  action: string;
+  resourceType: string;
+  resourceId: string;
+}
+
+const ALL = "all";
+
+export function AdminAudit() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { data: currentUser } = useCurrentUser();
+  const [filters, setFilters] = useState<AuditFilters>({ action: ALL, resourceType: ALL, resourceId: "" });
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const canRead = !!currentUser && hasPermission(currentUser.role, "audit:read");
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<AuditPage>({
+    queryKey: ["/api/admin/audit", filters],
+    enabled: canRead,
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      if (filters.action !== ALL) params.set("action", filters.action);
+      if (filters.resourceType !== ALL) params.set("resourceType", filters.resourceType);
+      if (filters.resourceId.trim()) params.set("resourceId", filters.resourceId.trim());
+      if (pageParam) params.set("cursor", String(pageParam));
+
+      const res = await apiFetch(`/api/admin/audit?${params}`);
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${await res.text()}`);
+      }
+      return res.json();
+    },
+  });
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const response = await apiFetch("/api/admin/audit/verify", { method: "POST" });
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+      setVerification(await response.json());
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "Could not verify the audit log",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const entries = data?.pages.flatMap((page) => page.items);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl font-bold">Audit Log</h2>
+          {canRead && (
+            <Button variant="outline" onClick={handleVerify} disabled={isVerifying}>
+              {isVerifying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+              Verify integrity
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 mb-6">
+          Every request that viewed, created, changed, exported or deleted an analysis, image or patient.
+        </p>
+
+        {verification && (
+          <Alert variant={verification.valid ? "default" : "destructive"} className="mb-6">
+            {verification.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+            <AlertTitle>{verification.valid ? "Audit log intact" : "Audit log has been tampered with"}</AlertTitle>
+            <AlertDescription>
+              {verification.valid
+                ? `All ${verification.checked} entries match their hashes.`
+                : verification.brokenAt
+                  ? `Entry ${verification.brokenAt}: ${verification.reason}. ${verification.checked} entries before it are intact.`
+                  : `${verification.reason}.`}
+              {verification.head && (
+                <div className="mt-1 break-all text-xs">
+                  Latest entry {verification.head.id}: {verification.head.hash}. Keep this hash outside the
+                  app to check later that no entries were removed.
+                </div>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {currentUser && !canRead ? (
+          <p className="text-destructive">Only admins can view the audit log</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-4">
+              <Select
+                value={filters.action}
+                onValueChange={(action) => setFilters({ ...filters, action })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Action" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {AUDIT_ACTIONS.map(action => (
+                    <SelectItem key={action.id} value={action.id}>{action.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.resourceType}
+                onValueChange={(resourceType) => setFilters({ ...filters, resourceType })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Resource" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All resources</SelectItem>
+                  {AUDIT_RESOURCES.map(resource => (
+                    <SelectItem key={resource.id} value={resource.id}>{resource.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={filters.resourceId}
+                onChange={(e) => setFilters({ ...filters, resourceId: e.target.value })}
+                placeholder="Resource id"
+              />
+            </div>
+
+            {isLoading || !entries ? (
+              <p>Loading audit log...</p>
+            ) : entries.length === 0 ? (
+              <p className="text-gray-500">No matching entries</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Who</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Resource</TableHead>
+                    <TableHead>Request</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(entry.createdAt), "PPp")}</TableCell>
+                      <TableCell>
+                        <div>{entry.actorEmail ?? "Signed URL"}</div>
+                        {entry.actorRole && (
+                          <div className="text-xs text-gray-500">{roleLabel(entry.actorRole)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{auditActionLabel(entry.action)}</TableCell>
+                      <TableCell>
+                        <div>{auditResourceLabel(entry.resourceType)}</div>
+                        {entry.resourceId && (
+                          <button
+                            type="button"
+                            className="text-xs text-gray-500 font-mono hover:underline"
+                            onClick={() => setFilters({ ...filters, resourceId: entry.resourceId! })}
+                          >
+                            {entry.resourceId}
+                          </button>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {entry.method} {entry.path}
+                        <span className={entry.statusCode >= 400 ? "text-destructive" : "text-gray-500"}>
+                          {" "}→ {entry.statusCode}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {hasNextPage && (
+              <Button
+                variant="outline"
+                className="w-full mt-4"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+              >
+                {isFetchingNextPage ? "Loading..." : "Load more"}
+              </Button>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { auth } from "@/lib/firebase";
+import { apiFetch, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import Navigation from "@/components/Navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { hasPermission, roleLabel, ROLES, type Role } from "@db/roles";
+
+interface ManagedUser {
+  firebaseId: string;
+  email: string;
+  role: Role;
+  roleUpdatedAt: string | null;
+  clinicId: string | null;
+  createdAt: string;
+}
+
+interface Clinic {
+  id: string;
+  name: string;
+}
+
+const NO_CLINIC = "none";
+
+export function AdminUsers() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { data: currentUser } = useCurrentUser();
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const isAdmin = !!currentUser && hasPermission(currentUser.role, "users:manage");
+
+  const { data: users, isLoading } = useQuery<ManagedUser[]>({
+    queryKey: ["/api/admin/users"],
+    enabled: isAdmin,
+  });
+  const { data: clinics } = useQuery<Clinic[]>({
+    queryKey: ["/api/admin/clinics"],
+    enabled: isAdmin,
+  });
+  const [clinicName, setClinicName] = useState("");
+
+  const handleClinicChange = async (user: ManagedUser, clinicId: string | null) => {
+    try {
+      const response = await apiFetch(`/api/admin/users/${user.firebaseId}/clinic`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clinicId }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Server error: ${response.status}`);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Could not change the clinic",
+      });
+    }
+  };
+
+  const handleCreateClinic = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await apiFetch("/api/admin/clinics", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: clinicName }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Server error: ${response.status}`);
+      }
+
+      setClinicName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/clinics"] });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Could not create the clinic",
+      });
+    }
+  };
+
+  const handleRoleChange = async (user: ManagedUser, role: Role) => {
+    try {
+      const response = await apiFetch(`/api/admin/users/${user.firebaseId}/role`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Server error: ${response.status}`);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({ title: "Role Updated", description: `${user.email} is now: ${roleLabel(role)}` });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Could not change the role",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <h2 className="text-2xl font-bold mb-2">Users</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          A new role applies to the user's next request. Staff in the same clinic share patient records.
+        </p>
+
+        {currentUser && !isAdmin ? (
+          <p className="text-destructive">Only admins can manage users</p>
+        ) : isLoading || !users ? (
+          <p>Loading users...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead className="w-48">Clinic</TableHead>
+                <TableHead className="w-48">Role</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map(user => (
+                <TableRow key={user.firebaseId}>
+                  <TableCell>{user.email}</TableCell>
+                  <TableCell>{format(new Date(user.createdAt), "PP")}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.clinicId ?? NO_CLINIC}
+                      onValueChange={(clinicId) => handleClinicChange(user, clinicId === NO_CLINIC ? null : clinicId)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_CLINIC}>No clinic</SelectItem>
+                        {clinics?.map(clinic => (
+                          <SelectItem key={clinic.id} value={clinic.id}>{clinic.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.role}
+                      onValueChange={(role) => handleRoleChange(user, role as Role)}
+                      disabled={user.firebaseId === currentUser?.firebaseId}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLES.map(role => (
+                          <SelectItem key={role.id} value={role.id}>{role.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {isAdmin && (
+          <form onSubmit={handleCreateClinic} className="flex gap-2 mt-8 max-w-md">
+            <Input
+              value={clinicName}
+              onChange={(e) => setClinicName(e.target.value)}
+              placeholder="New clinic name"
+              maxLength={200}
+            />
+            <Button type="submit" disabled={!clinicName.trim()}>Add clinic</Button>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+}
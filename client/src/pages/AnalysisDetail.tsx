@@ -0,0 +1,263 @@
+import { useEffect } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { auth } from "@/lib/firebase";
+import Navigation from "@/components/Navigation";
+import AnnotatedImage from "@/components/AnnotatedImage";
+import TrendIndicator from "@/components/TrendIndicator";
+import RiskScore from "@/components/RiskScore";
+import RecommendationPanel from "@/components/RecommendationPanel";
+import FollowUpEditor from "@/components/FollowUpEditor";
+import NotesEditor from "@/components/NotesEditor";
+import ReviewPanel from "@/components/ReviewPanel";
+import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { apiFetch, IMAGE_QUERY_OPTIONS, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useQuery } from "@tanstack/react-query";
+import { resultColor, type Analysis, type Lesion } from "@/lib/analysis";
+import { siteLabel } from "@db/sites";
+import { resultLabel } from "@db/categories";
+import { hasPermission } from "@db/roles";
+
+interface AnalysisWithPatient extends Analysis {
+  patient: { id: string; name: string } | null;
+}
+
+export function AnalysisDetail() {
+  const [, setLocation] = useLocation();
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { data: currentUser } = useCurrentUser();
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const { data: analysis, isLoading, error } = useQuery<AnalysisWithPatient>({
+    queryKey: [`/api/analysis/${id}`],
+    ...IMAGE_QUERY_OPTIONS,
+  });
+
+  const isOwner = !!analysis && analysis.userId === currentUser?.firebaseId;
+  // A clinician who can open an analysis may also edit its follow-up and notes,
+  // and delete it
+  const canModify = isOwner || (!!currentUser && hasPermission(currentUser.role, "analyses:review"));
+
+  const refreshAnalyses = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/analysis/history"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analysis/trash"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/review/queue"] });
+    if (analysis?.patient) {
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${analysis.patient.id}`] });
+    }
+  };
+
+  const handleUndo = async () => {
+    try {
+      const response = await apiFetch(`/api/analysis/${id}/restore`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      refreshAnalyses();
+      queryClient.invalidateQueries({ queryKey: [`/api/analysis/${id}`] });
+      setLocation(`/analysis/${id}`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "Could not restore the analysis",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      const response = await apiFetch(`/api/analysis/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      refreshAnalyses();
+      toast({
+        title: "Analysis Deleted",
+        description: "The analysis was moved to the trash",
+        action: (
+          <ToastAction altText="Undo delete" onClick={handleUndo}>
+            Undo
+          </ToastAction>
+        ),
+      });
+      setLocation(analysis?.patient ? `/patients/${analysis.patient.id}` : "/");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Could not delete the analysis",
+      });
+    }
+  };
+
+  const handleTrack = async () => {
+    try {
+      const response = await apiFetch("/api/lesions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ analysisId: id }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      const lesion: Lesion = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/lesions"] });
+      setLocation(`/lesions/${lesion.id}`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Tracking Failed",
+        description: error instanceof Error ? error.message : "Could not start tracking this lesion",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        {isLoading ? (
+          <p>Loading analysis...</p>
+        ) : error || !analysis ? (
+          <p className="text-destructive">Could not load this analysis</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div>
+              {analysis.imageUrl ? (
+                <AnnotatedImage src={analysis.imageUrl} alt="Analysis" regions={analysis.regions} />
+              ) : (
+                <div className="aspect-video rounded-md bg-gray-100" />
+              )}
+              {analysis.regions && analysis.regions.length > 0 && (
+                <ul className="mt-4 space-y-1 text-sm">
+                  {analysis.regions.map((region, index) => (
+                    <li key={index} className="flex justify-between">
+                      <span>{region.label}</span>
+                      <span className="text-gray-500">
+                        {(region.confidence * 100).toFixed(0)}% confidence
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className={resultColor(analysis.result)}>
+                  {resultLabel(analysis.result) ?? "No result"}
+                </CardTitle>
+                <div className="text-sm text-gray-500">
+                  {format(new Date(analysis.timestamp), "PPp")}
+                  {analysis.site && ` · ${siteLabel(analysis.site)}`}
+                </div>
+                {analysis.patient && (
+                  <Link href={`/patients/${analysis.patient.id}`} className="text-sm hover:underline">
+                    Patient: {analysis.patient.name}
+                  </Link>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                <RecommendationPanel
+                  recommendation={analysis.recommendation}
+                  details={analysis.recommendations}
+                />
+                <div className="flex justify-between">
+                  <span className="font-medium">Confidence:</span>
+                  <span>{((analysis.confidence ?? 0) * 100).toFixed(1)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="font-medium">Severity:</span>
+                  <span className="capitalize">{analysis.severity ?? "—"}</span>
+                </div>
+                <RiskScore score={analysis.riskScore} level={analysis.riskLevel} />
+                {canModify && analysis.status === "complete" && <FollowUpEditor analysis={analysis} />}
+                {currentUser && <ReviewPanel analysis={analysis} role={currentUser.role} />}
+                {analysis.explanation && (
+                  <div>
+                    <h3 className="font-medium mb-1">Explanation</h3>
+                    <p className="whitespace-pre-wrap">{analysis.explanation}</p>
+                  </div>
+                )}
+                {analysis.findings && analysis.findings.length > 0 && (
+                  <div>
+                    <h3 className="font-medium mb-1">Findings</h3>
+                    <ul className="list-disc pl-5">
+                      {analysis.findings.map((finding, index) => (
+                        <li key={index}>{finding}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {analysis.comparison && (
+                  <div>
+                    <h3 className="font-medium mb-1">Change since previous capture</h3>
+                    <TrendIndicator trend={analysis.comparison.trend} />
+                    <p className="mt-1">{analysis.comparison.summary}</p>
+                  </div>
+                )}
+                {!analysis.recommendation && analysis.recommendations && (
+                  <div>
+                    <h3 className="font-medium mb-1">Recommendations</h3>
+                    <p className="whitespace-pre-wrap">{analysis.recommendations}</p>
+                  </div>
+                )}
+                {/* Remount after a save so the editor starts from the stored notes */}
+                {canModify && <NotesEditor key={analysis.patientNotes ?? ""} analysis={analysis} />}
+                <div className="flex flex-wrap gap-2">
+                  {!isOwner ? null : analysis.lesionId ? (
+                    <Link href={`/lesions/${analysis.lesionId}`}>
+                      <Button variant="outline" size="sm">View lesion timeline</Button>
+                    </Link>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={handleTrack}>
+                      Track this lesion over time
+                    </Button>
+                  )}
+                  {canModify && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleDelete}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,24 +1,52 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { auth } from "@/lib/firebase";
+import { apiFetch, IMAGE_QUERY_OPTIONS } from "@/lib/queryClient";
+import type { Analysis } from "@/lib/analysis";
+import { ANATOMICAL_SITES } from "@db/sites";
+import { RESULT_CATEGORIES } from "@db/categories";
+import { REVIEW_STATUSES } from "@db/review";
 import { useToast } from "@/hooks/use-toast";
 import ImageUpload from "@/components/ImageUpload";
 import ResultCard from "@/components/ResultCard";
+import FollowUpPanel from "@/components/FollowUpPanel";
 import Navigation from "@/components/Navigation";
 import { Card, CardContent } from "@/components/ui/card";
-import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useInfiniteQuery } from "@tanstack/react-query";
 
-interface Analysis {
-  id: string;
-  imageUrl: string;
+interface HistoryPage {
+  items: Analysis[];
+  nextCursor: string | null;
+}
+
+interface HistoryFilters {
   result: string;
-  confidence: number;
-  timestamp: Date;
+  severity: string;
+  site: string;
+  reviewStatus: string;
+  sort: string;
 }
 
+const ALL = "all";
+
 export function Dashboard() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const [filters, setFilters] = useState<HistoryFilters>({
+    result: ALL,
+    severity: ALL,
+    site: ALL,
+    reviewStatus: ALL,
+    sort: "timestamp:desc",
+  });
   
   useEffect(() => {
     const unsubscribe = auth.onAuthStateChanged((user) => {
@@ -30,33 +58,155 @@ export function Dashboard() {
     return () => unsubscribe();
   }, [setLocation]);
 
-  const { data: analysisHistory, isLoading } = useQuery<Analysis[]>({
-    queryKey: ["/api/analysis/history"],
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    error,
+  } = useInfiniteQuery<HistoryPage>({
+    queryKey: ["/api/analysis/history", filters],
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    ...IMAGE_QUERY_OPTIONS,
+    queryFn: async ({ pageParam }) => {
+      const [sortBy, order] = filters.sort.split(":");
+      const params = new URLSearchParams({ sortBy, order });
+      if (filters.result !== ALL) params.set("result", filters.result);
+      if (filters.severity !== ALL) params.set("severity", filters.severity);
+      if (filters.site !== ALL) params.set("site", filters.site);
+      if (filters.reviewStatus !== ALL) params.set("reviewStatus", filters.reviewStatus);
+      if (pageParam) params.set("cursor", pageParam as string);
+
+      const res = await apiFetch(`/api/analysis/history?${params}`);
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${await res.text()}`);
+      }
+      return res.json();
+    },
   });
 
+  useEffect(() => {
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load analysis history",
+      });
+    }
+  }, [error, toast]);
+
+  const analysisHistory = data?.pages.flatMap((page) => page.items);
+
   return (
     <div className="min-h-screen bg-background">
       <Navigation />
       
       <main className="container mx-auto px-4 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          <div>
+          <div className="space-y-8">
             <Card>
               <CardContent className="pt-6">
                 <h2 className="text-2xl font-bold mb-4">Upload Image</h2>
                 <ImageUpload />
               </CardContent>
             </Card>
+            <FollowUpPanel />
           </div>
 
           <div>
             <h2 className="text-2xl font-bold mb-4">Analysis History</h2>
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              <Select
+                value={filters.result}
+                onValueChange={(result) => setFilters({ ...filters, result })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Result" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All results</SelectItem>
+                  {RESULT_CATEGORIES.map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.severity}
+                onValueChange={(severity) => setFilters({ ...filters, severity })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Severity" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All severities</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.site}
+                onValueChange={(site) => setFilters({ ...filters, site })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Site" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All sites</SelectItem>
+                  {ANATOMICAL_SITES.map(site => (
+                    <SelectItem key={site.id} value={site.id}>{site.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.reviewStatus}
+                onValueChange={(reviewStatus) => setFilters({ ...filters, reviewStatus })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Review status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All review statuses</SelectItem>
+                  {REVIEW_STATUSES.map(status => (
+                    <SelectItem key={status.id} value={status.id}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filters.sort}
+                onValueChange={(sort) => setFilters({ ...filters, sort })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="timestamp:desc">Newest first</SelectItem>
+                  <SelectItem value="timestamp:asc">Oldest first</SelectItem>
+                  <SelectItem value="confidence:desc">Highest confidence</SelectItem>
+                  <SelectItem value="confidence:asc">Lowest confidence</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <div className="space-y-4">
               {isLoading ? (
                 <p>Loading history...</p>
+              ) : analysisHistory?.length === 0 ? (
+                <p className="text-gray-500">No analyses yet</p>
               ) : analysisHistory?.map((analysis) => (
                 <ResultCard key={analysis.id} analysis={analysis} />
               ))}
+              {hasNextPage && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load more"}
+                </Button>
+              )}
             </div>
           </div>
         </div>
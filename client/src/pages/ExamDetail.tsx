@@ -0,0 +1,87 @@
+import { useEffect } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import { auth } from "@/lib/firebase";
+import Navigation from "@/components/Navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { useQuery } from "@tanstack/react-query";
+import { IMAGE_QUERY_OPTIONS } from "@/lib/queryClient";
+import { resultColor, type Exam } from "@/lib/analysis";
+import { siteLabel } from "@db/sites";
+import { resultLabel } from "@db/categories";
+
+export function ExamDetail() {
+  const [, setLocation] = useLocation();
+  const { id } = useParams<{ id: string }>();
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const { data: exam, isLoading, error } = useQuery<Exam>({
+    queryKey: [`/api/exams/${id}`],
+    ...IMAGE_QUERY_OPTIONS,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        {isLoading ? (
+          <p>Loading exam...</p>
+        ) : error || !exam ? (
+          <p className="text-destructive">Could not load this exam</p>
+        ) : (
+          <>
+            <div className="mb-6">
+              <h2 className={`text-2xl font-bold ${exam.status === "failed" ? "text-destructive" : resultColor(exam.result)}`}>
+                {exam.status === "failed" ? "Exam failed" : resultLabel(exam.result) ?? "Analysis in progress..."}
+              </h2>
+              <p className="text-sm text-gray-500">
+                {format(new Date(exam.timestamp), "PPp")}
+                {exam.summary && ` · ${exam.summary}`}
+              </p>
+            </div>
+
+            <div className="space-y-4">
+              {exam.analyses.map((analysis) => (
+                <Card key={analysis.id}>
+                  <CardContent className="flex gap-4 p-4">
+                    {analysis.imageUrl ? (
+                      <img
+                        src={analysis.imageUrl}
+                        alt="Capture"
+                        className="h-24 w-24 rounded-md object-cover"
+                      />
+                    ) : (
+                      <div className="h-24 w-24 rounded-md bg-gray-100" />
+                    )}
+                    <div className="flex-1 space-y-1 text-sm">
+                      <div className="font-medium">{siteLabel(analysis.site) ?? "Untagged site"}</div>
+                      <div className={resultColor(analysis.result)}>
+                        {resultLabel(analysis.result) ?? (analysis.status === "failed"
+                          ? analysis.error ?? "Analysis failed"
+                          : "Analysis in progress...")}
+                        {analysis.severity && ` · ${analysis.severity} severity`}
+                      </div>
+                      <Link href={`/analysis/${analysis.id}`} className="text-primary hover:underline">
+                        View details
+                      </Link>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect } from "react";
+import { Link, useLocation } from "wouter";
+import { formatDistance } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { auth } from "@/lib/firebase";
+import Navigation from "@/components/Navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { useQuery } from "@tanstack/react-query";
+import { IMAGE_QUERY_OPTIONS } from "@/lib/queryClient";
+import { resultColor, type Exam } from "@/lib/analysis";
+import { resultLabel } from "@db/categories";
+
+export function Exams() {
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const { data: exams, isLoading } = useQuery<Exam[]>({
+    queryKey: ["/api/exams"],
+    ...IMAGE_QUERY_OPTIONS,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <h2 className="text-2xl font-bold mb-2">Exams</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Each exam is rated by its most urgent image.
+        </p>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <p>Loading exams...</p>
+          ) : exams?.length === 0 ? (
+            <p className="text-gray-500">
+              No exams yet. Switch on exam mode when uploading to screen several sites at once.
+            </p>
+          ) : exams?.map((exam) => (
+            <Link key={exam.id} href={`/exams/${exam.id}`}>
+              <Card className="cursor-pointer hover:bg-gray-50">
+                <CardContent className="flex items-center gap-4 p-4">
+                  <div className="flex -space-x-4">
+                    {exam.analyses.slice(0, 3).map((analysis) => analysis.imageUrl ? (
+                      <img
+                        key={analysis.id}
+                        src={analysis.imageUrl}
+                        alt="Capture"
+                        className="h-16 w-16 rounded-md border-2 border-background object-cover"
+                      />
+                    ) : (
+                      <div key={analysis.id} className="h-16 w-16 rounded-md border-2 border-background bg-gray-100" />
+                    ))}
+                  </div>
+                  <div className="flex-1 space-y-1">
+                    {exam.status === "complete" || exam.status === "failed" ? (
+                      <div className={exam.status === "failed" ? "text-destructive" : resultColor(exam.result)}>
+                        {exam.status === "failed" ? "Exam failed" : resultLabel(exam.result)}
+                      </div>
+                    ) : (
+                      <div className="flex items-center text-gray-500">
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Analysis in progress...
+                      </div>
+                    )}
+                    <div className="text-sm text-gray-500">
+                      {exam.summary ?? `${exam.analyses.length} images`}
+                      {` · ${formatDistance(new Date(exam.timestamp), new Date(), { addSuffix: true })}`}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { differenceInDays, format } from "date-fns";
+import { auth } from "@/lib/firebase";
+import Navigation from "@/components/Navigation";
+import TrendIndicator from "@/components/TrendIndicator";
+import { Card, CardContent } from "@/components/ui/card";
+import { useQuery } from "@tanstack/react-query";
+import { IMAGE_QUERY_OPTIONS } from "@/lib/queryClient";
+import { resultColor, type Lesion } from "@/lib/analysis";
+import { siteLabel } from "@db/sites";
+import { resultLabel } from "@db/categories";
+
+export function LesionDetail() {
+  const [, setLocation] = useLocation();
+  const { id } = useParams<{ id: string }>();
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const { data: lesion, isLoading, error } = useQuery<Lesion>({
+    queryKey: [`/api/lesions/${id}`],
+    ...IMAGE_QUERY_OPTIONS,
+  });
+
+  const first = lesion?.analyses[0];
+  const last = lesion?.analyses[lesion.analyses.length - 1];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        {isLoading ? (
+          <p>Loading lesion...</p>
+        ) : error || !lesion ? (
+          <p className="text-destructive">Could not load this lesion</p>
+        ) : (
+          <>
+            <div className="flex items-start justify-between mb-6">
+              <div>
+                <h2 className="text-2xl font-bold">
+                  {lesion.label || siteLabel(lesion.site) || "Unnamed lesion"}
+                </h2>
+                <p className="text-sm text-gray-500">
+                  {lesion.analyses.length} captures
+                  {first && last && first !== last &&
+                    ` over ${differenceInDays(new Date(last.timestamp), new Date(first.timestamp))} days`}
+                </p>
+              </div>
+              <TrendIndicator trend={lesion.trend} />
+            </div>
+
+            <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+              {lesion.analyses.map((analysis) => (
+                <li key={analysis.id} className="ml-6">
+                  <span className="absolute -left-1.5 mt-2 h-3 w-3 rounded-full bg-primary" />
+                  <Card>
+                    <CardContent className="flex gap-4 p-4">
+                      {analysis.imageUrl ? (
+                        <img
+                          src={analysis.imageUrl}
+                          alt="Capture"
+                          className="h-24 w-24 rounded-md object-cover"
+                        />
+                      ) : (
+                        <div className="h-24 w-24 rounded-md bg-gray-100" />
+                      )}
+                      <div className="flex-1 space-y-1 text-sm">
+                        <div className="text-gray-500">{format(new Date(analysis.timestamp), "PPp")}</div>
+                        <div className={resultColor(analysis.result)}>
+                          {resultLabel(analysis.result) ?? (analysis.status === "failed" ? "Analysis failed" : "Analysis in progress...")}
+                          {analysis.severity && ` · ${analysis.severity} severity`}
+                        </div>
+                        {analysis.comparison && (
+                          <>
+                            <TrendIndicator trend={analysis.comparison.trend} />
+                            <p>{analysis.comparison.summary}</p>
+                            <p className="text-gray-500">
+                              Size {analysis.comparison.size} · color {analysis.comparison.color} · border {analysis.comparison.border}
+                            </p>
+                          </>
+                        )}
+                        <Link href={`/analysis/${analysis.id}`} className="text-primary hover:underline">
+                          View details
+                        </Link>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
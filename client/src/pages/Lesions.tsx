@@ -0,0 +1,84 @@
+import { useEffect } from "react";
+import { Link, useLocation } from "wouter";
+import { formatDistance } from "date-fns";
+import { auth } from "@/lib/firebase";
+import Navigation from "@/components/Navigation";
+import TrendIndicator from "@/components/TrendIndicator";
+import { Card, CardContent } from "@/components/ui/card";
+import { useQuery } from "@tanstack/react-query";
+import { IMAGE_QUERY_OPTIONS } from "@/lib/queryClient";
+import type { Lesion } from "@/lib/analysis";
+import { siteLabel } from "@db/sites";
+
+export function Lesions() {
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const { data: lesions, isLoading } = useQuery<Lesion[]>({
+    queryKey: ["/api/lesions"],
+    ...IMAGE_QUERY_OPTIONS,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <h2 className="text-2xl font-bold mb-2">Tracked Lesions</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          A lesion that persists or grows over two to three weeks should be seen by a clinician.
+        </p>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <p>Loading lesions...</p>
+          ) : lesions?.length === 0 ? (
+            <p className="text-gray-500">
+              No lesions tracked yet. Choose "Start tracking a new lesion" when analyzing an image.
+            </p>
+          ) : lesions?.map((lesion) => {
+            const latest = lesion.analyses[lesion.analyses.length - 1];
+            return (
+              <Link key={lesion.id} href={`/lesions/${lesion.id}`}>
+                <Card className="cursor-pointer hover:bg-gray-50">
+                  <CardContent className="flex items-center gap-4 p-4">
+                    {latest?.imageUrl ? (
+                      <img
+                        src={latest.imageUrl}
+                        alt="Latest capture"
+                        className="h-16 w-16 rounded-md object-cover"
+                      />
+                    ) : (
+                      <div className="h-16 w-16 rounded-md bg-gray-100" />
+                    )}
+                    <div className="flex-1 space-y-1">
+                      <div className="font-medium">
+                        {lesion.label || siteLabel(lesion.site) || "Unnamed lesion"}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {lesion.analyses.length} captures
+                        {latest && ` · last ${formatDistance(new Date(latest.timestamp), new Date(), {
+                          addSuffix: true,
+                        })}`}
+                      </div>
+                    </div>
+                    <TrendIndicator trend={lesion.trend} />
+                  </CardContent>
+                </Card>
+              </Link>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+}
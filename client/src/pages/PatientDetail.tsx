@@ -0,0 +1,188 @@
+import { useEffect } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { auth } from "@/lib/firebase";
+import { apiFetch, IMAGE_QUERY_OPTIONS, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Navigation from "@/components/Navigation";
+import PatientForm from "@/components/PatientForm";
+import ReviewStatusBadge from "@/components/ReviewStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useQuery } from "@tanstack/react-query";
+import { resultColor, type Analysis, type Patient } from "@/lib/analysis";
+import { resultLabel } from "@db/categories";
+import { siteLabel } from "@db/sites";
+import type { PatientDetails, Sex } from "@db/patients";
+
+interface PatientRecord extends Patient {
+  analyses: Analysis[];
+}
+
+export function PatientDetail() {
+  const [, setLocation] = useLocation();
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const { data: patient, isLoading, error } = useQuery<PatientRecord>({
+    queryKey: [`/api/patients/${id}`],
+    ...IMAGE_QUERY_OPTIONS,
+  });
+
+  const handleUpdate = async (values: PatientDetails) => {
+    try {
+      const response = await apiFetch(`/api/patients/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Server error: ${response.status}`);
+      }
+
+      queryClient.invalidateQueries({ queryKey: [`/api/patients/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      toast({ title: "Patient Updated" });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Could not update the patient",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      const response = await apiFetch(`/api/patients/${id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      setLocation("/patients");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Could not archive the patient",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        {isLoading ? (
+          <p>Loading patient...</p>
+        ) : error || !patient ? (
+          <p className="text-destructive">Could not load this patient</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>{patient.name}</CardTitle>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Archive this patient?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The record disappears from the patient list. Its analyses are kept.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleDelete}>Archive</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </CardHeader>
+              <CardContent>
+                {/* Remount after a save so the form starts from the stored details */}
+                <PatientForm
+                  key={patient.updatedAt}
+                  submitLabel="Save changes"
+                  defaultValues={{
+                    name: patient.name,
+                    dateOfBirth: patient.dateOfBirth ?? "",
+                    sex: patient.sex as Sex,
+                    mrn: patient.mrn ?? "",
+                    phone: patient.phone ?? "",
+                    email: patient.email ?? "",
+                  }}
+                  onSubmit={handleUpdate}
+                />
+              </CardContent>
+            </Card>
+
+            <div>
+              <h3 className="text-lg font-semibold mb-4">Analyses</h3>
+              <div className="space-y-2">
+                {patient.analyses.length === 0 && (
+                  <p className="text-gray-500">
+                    No analyses yet. Pick this patient when uploading an image.
+                  </p>
+                )}
+                {patient.analyses.map(analysis => (
+                  <Link key={analysis.id} href={`/analysis/${analysis.id}`}>
+                    <Card className="cursor-pointer hover:bg-gray-50">
+                      <CardContent className="flex items-center gap-4 p-4">
+                        {analysis.imageUrl ? (
+                          <img src={analysis.imageUrl} alt="Capture" className="h-14 w-14 rounded-md object-cover" />
+                        ) : (
+                          <div className="h-14 w-14 rounded-md bg-gray-100" />
+                        )}
+                        <div className="flex-1 space-y-1">
+                          <div className={resultColor(analysis.result)}>
+                            {resultLabel(analysis.result) ?? "In progress"}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {format(new Date(analysis.timestamp), "PPp")}
+                            {analysis.site && ` · ${siteLabel(analysis.site)}`}
+                          </div>
+                        </div>
+                        <ReviewStatusBadge status={analysis.reviewStatus} />
+                      </CardContent>
+                    </Card>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
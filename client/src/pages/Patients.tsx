@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { format, parseISO } from "date-fns";
+import { UserPlus } from "lucide-react";
+import { auth } from "@/lib/firebase";
+import { apiFetch, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Navigation from "@/components/Navigation";
+import PatientForm from "@/components/PatientForm";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useQuery } from "@tanstack/react-query";
+import type { Patient } from "@/lib/analysis";
+import { sexLabel, type PatientDetails } from "@db/patients";
+
+export function Patients() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const { data: patients, isLoading } = useQuery<Patient[]>({
+    queryKey: ["/api/patients", search.trim()],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (search.trim()) params.set("search", search.trim());
+
+      const res = await apiFetch(`/api/patients?${params}`);
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${await res.text()}`);
+      }
+      return res.json();
+    },
+  });
+
+  const handleCreate = async (values: PatientDetails) => {
+    try {
+      const response = await apiFetch("/api/patients", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Server error: ${response.status}`);
+      }
+
+      const patient: Patient = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      setIsCreating(false);
+      setLocation(`/patients/${patient.id}`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Could not create the patient",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold">Patients</h2>
+          <Dialog open={isCreating} onOpenChange={setIsCreating}>
+            <DialogTrigger asChild>
+              <Button>
+                <UserPlus className="h-4 w-4 mr-2" />
+                New patient
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>New patient</DialogTitle>
+              </DialogHeader>
+              <PatientForm submitLabel="Create patient" onSubmit={handleCreate} />
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name or medical record number"
+          className="mb-4"
+        />
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <p>Loading patients...</p>
+          ) : patients?.length === 0 ? (
+            <p className="text-gray-500">{search ? "No matching patients" : "No patients yet"}</p>
+          ) : patients?.map((patient) => (
+            <Link key={patient.id} href={`/patients/${patient.id}`}>
+              <Card className="cursor-pointer hover:bg-gray-50">
+                <CardContent className="flex justify-between items-center p-4">
+                  <div>
+                    <div className="font-medium">{patient.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {[
+                        sexLabel(patient.sex),
+                        patient.dateOfBirth && `born ${format(parseISO(patient.dateOfBirth), "PP")}`,
+                      ].filter(Boolean).join(" · ")}
+                    </div>
+                  </div>
+                  {patient.mrn && <span className="text-sm text-gray-500">MRN {patient.mrn}</span>}
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { auth } from "@/lib/firebase";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import Navigation from "@/components/Navigation";
+import AnnotatedImage from "@/components/AnnotatedImage";
+import ReviewStatusBadge from "@/components/ReviewStatusBadge";
+import ReviewDecisionForm from "@/components/ReviewDecisionForm";
+import RiskScore from "@/components/RiskScore";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useQuery } from "@tanstack/react-query";
+import { cn } from "@/lib/utils";
+import { resultColor, type Analysis } from "@/lib/analysis";
+import { resultLabel } from "@db/categories";
+import { siteLabel } from "@db/sites";
+import { hasPermission } from "@db/roles";
+import {
+  ALCOHOL_OPTIONS,
+  BETEL_QUID_OPTIONS,
+  HPV_OPTIONS,
+  TOBACCO_OPTIONS,
+  optionLabel,
+  type RiskFactors,
+} from "@db/risk-factors";
+
+interface QueueItem extends Analysis {
+  ownerEmail: string;
+  riskAssessment: RiskFactors | null;
+}
+
+export function ReviewQueue() {
+  const [, setLocation] = useLocation();
+  const { data: currentUser } = useCurrentUser();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const isReviewer = !!currentUser && hasPermission(currentUser.role, "analyses:review");
+
+  const { data: queue, isLoading } = useQuery<QueueItem[]>({
+    queryKey: ["/api/review/queue"],
+    enabled: isReviewer,
+    staleTime: 0,
+    refetchInterval: 60 * 1000,
+  });
+
+  // Default to the top of the queue, and move on once the selected item is decided
+  const selected = queue?.find(item => item.id === selectedId) ?? queue?.[0];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8">
+        <h2 className="text-2xl font-bold mb-2">Review Queue</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Analyses sent for review and AI results that call for a referral, most severe and oldest first.
+        </p>
+
+        {currentUser && !isReviewer ? (
+          <p className="text-destructive">Only clinicians can review analyses</p>
+        ) : isLoading || !queue ? (
+          <p>Loading queue...</p>
+        ) : queue.length === 0 ? (
+          <p className="text-gray-500">Nothing is waiting for review</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[20rem_1fr] gap-6">
+            <ScrollArea className="lg:h-[calc(100vh-14rem)] border rounded-md">
+              <ul className="divide-y">
+                {queue.map(item => (
+                  <li key={item.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(item.id)}
+                      className={cn(
+                        "w-full text-left p-3 space-y-1 hover:bg-muted",
+                        item.id === selected?.id && "bg-muted"
+                      )}
+                    >
+                      <div className={cn("font-medium", resultColor(item.result))}>
+                        {resultLabel(item.result)}
+                      </div>
+                      <div className="flex justify-between items-center text-xs text-gray-500">
+                        <span className="capitalize">
+                          {item.severity ?? "—"} · {formatDistanceToNow(new Date(item.timestamp), { addSuffix: true })}
+                        </span>
+                        <ReviewStatusBadge status={item.reviewStatus} />
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">{item.ownerEmail}</div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            {selected && (
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                <div>
+                  {selected.imageUrl ? (
+                    <AnnotatedImage src={selected.imageUrl} alt="Analysis" regions={selected.regions} />
+                  ) : (
+                    <div className="aspect-video rounded-md bg-gray-100" />
+                  )}
+                  <Link href={`/analysis/${selected.id}`}>
+                    <Button variant="link" size="sm" className="px-0">Open full analysis</Button>
+                  </Link>
+                </div>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className={resultColor(selected.result)}>
+                      AI result: {resultLabel(selected.result)}
+                    </CardTitle>
+                    <div className="text-sm text-gray-500">
+                      {selected.ownerEmail}
+                      {selected.site && ` · ${siteLabel(selected.site)}`}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4 text-sm">
+                    <div className="flex justify-between">
+                      <span className="font-medium">Severity:</span>
+                      <span className="capitalize">{selected.severity ?? "—"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="font-medium">Confidence:</span>
+                      <span>{((selected.confidence ?? 0) * 100).toFixed(1)}%</span>
+                    </div>
+                    <RiskScore score={selected.riskScore} level={selected.riskLevel} />
+                    {selected.explanation && (
+                      <div>
+                        <h3 className="font-medium mb-1">AI explanation</h3>
+                        <p className="whitespace-pre-wrap">{selected.explanation}</p>
+                      </div>
+                    )}
+                    {selected.findings && selected.findings.length > 0 && (
+                      <ul className="list-disc pl-5">
+                        {selected.findings.map((finding, index) => (
+                          <li key={index}>{finding}</li>
+                        ))}
+                      </ul>
+                    )}
+                    <div>
+                      <h3 className="font-medium mb-1">Risk factors</h3>
+                      {selected.riskAssessment ? (
+                        <div className="text-gray-600 space-y-1">
+                          <div>Age: {selected.riskAssessment.age}</div>
+                          <div>Tobacco: {optionLabel(TOBACCO_OPTIONS, selected.riskAssessment.tobacco)}</div>
+                          <div>Betel quid: {optionLabel(BETEL_QUID_OPTIONS, selected.riskAssessment.betelQuid)}</div>
+                          <div>Alcohol: {optionLabel(ALCOHOL_OPTIONS, selected.riskAssessment.alcohol)}</div>
+                          <div>HPV: {optionLabel(HPV_OPTIONS, selected.riskAssessment.hpv)}</div>
+                        </div>
+                      ) : (
+                        <p className="text-gray-500">No questionnaire answers</p>
+                      )}
+                    </div>
+                    {selected.patientNotes && (
+                      <div>
+                        <h3 className="font-medium mb-1">Patient notes</h3>
+                        <p className="whitespace-pre-wrap">{selected.patientNotes}</p>
+                      </div>
+                    )}
+
+                    <div className="border-t pt-4">
+                      <h3 className="font-medium mb-2">Your decision</h3>
+                      {/* Remount per analysis so the form starts from its AI result */}
+                      <ReviewDecisionForm
+                        key={selected.id}
+                        analysis={selected}
+                        onDecided={() => setSelectedId(null)}
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
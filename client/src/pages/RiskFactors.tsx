@@ -0,0 +1,120 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { auth } from "@/lib/firebase";
+import { apiFetch, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Navigation from "@/components/Navigation";
+import RiskFactorForm from "@/components/RiskFactorForm";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ALCOHOL_OPTIONS,
+  BETEL_QUID_OPTIONS,
+  HPV_OPTIONS,
+  TOBACCO_OPTIONS,
+  optionLabel,
+  type RiskFactors as RiskFactorAnswers,
+} from "@db/risk-factors";
+
+interface RiskAssessment extends RiskFactorAnswers {
+  id: string;
+  createdAt: string;
+}
+
+export function RiskFactors() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const { data: history, isLoading } = useQuery<RiskAssessment[]>({
+    queryKey: ["/api/risk-factors"],
+  });
+
+  const handleSubmit = async (values: RiskFactorAnswers) => {
+    try {
+      const response = await apiFetch("/api/risk-factors", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/risk-factors"] });
+      toast({
+        title: "Answers Saved",
+        description: "New analyses will take your risk factors into account",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Could not save your answers",
+      });
+    }
+  };
+
+  const current = history?.[0];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <h2 className="text-2xl font-bold mb-2">Risk Factors</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Tobacco, betel quid, alcohol, age and HPV status change how likely a lesion is to be
+          serious. Your latest answers are used for every new analysis.
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Card>
+            <CardContent className="p-6">
+              {isLoading ? (
+                <p>Loading...</p>
+              ) : (
+                // Remount once the current answers have loaded so they become the defaults
+                <RiskFactorForm key={current?.id ?? "new"} defaultValues={current} onSubmit={handleSubmit} />
+              )}
+            </CardContent>
+          </Card>
+
+          <div>
+            <h3 className="text-lg font-semibold mb-4">History</h3>
+            <div className="space-y-4">
+              {history?.length === 0 && <p className="text-gray-500">No answers recorded yet</p>}
+              {history?.map((assessment) => (
+                <Card key={assessment.id}>
+                  <CardHeader className="p-4 pb-2">
+                    <CardTitle className="text-sm font-medium">
+                      {format(new Date(assessment.createdAt), "PPp")}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-4 pt-0 text-sm text-gray-600 space-y-1">
+                    <div>Age: {assessment.age}</div>
+                    <div>Tobacco: {optionLabel(TOBACCO_OPTIONS, assessment.tobacco)}</div>
+                    <div>Betel quid: {optionLabel(BETEL_QUID_OPTIONS, assessment.betelQuid)}</div>
+                    <div>Alcohol: {optionLabel(ALCOHOL_OPTIONS, assessment.alcohol)}</div>
+                    <div>HPV: {optionLabel(HPV_OPTIONS, assessment.hpv)}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
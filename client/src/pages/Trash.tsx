@@ -0,0 +1,115 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { formatDistance } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { auth } from "@/lib/firebase";
+import { apiFetch, IMAGE_QUERY_OPTIONS, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Navigation from "@/components/Navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useQuery } from "@tanstack/react-query";
+import type { Analysis } from "@/lib/analysis";
+import { resultLabel } from "@db/categories";
+
+interface DeletedAnalysis extends Analysis {
+  deletedAt: string;
+  restorableUntil: string;
+}
+
+export function Trash() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (!user) {
+        setLocation("/auth");
+      }
+    });
+
+    return () => unsubscribe();
+  }, [setLocation]);
+
+  const { data: deleted, isLoading } = useQuery<DeletedAnalysis[]>({
+    queryKey: ["/api/analysis/trash"],
+    ...IMAGE_QUERY_OPTIONS,
+    staleTime: 0,
+  });
+
+  const handleRestore = async (id: string) => {
+    try {
+      const response = await apiFetch(`/api/analysis/${id}/restore`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analysis/trash"] });
+      toast({
+        title: "Analysis Restored",
+        description: "The analysis is back in your history",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "Could not restore the analysis",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <h2 className="text-2xl font-bold mb-2">Trash</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Deleted analyses can be restored until they are permanently removed.
+        </p>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <p>Loading trash...</p>
+          ) : deleted?.length === 0 ? (
+            <p className="text-gray-500">Trash is empty</p>
+          ) : deleted?.map((analysis) => (
+            <Card key={analysis.id}>
+              <CardContent className="flex items-center gap-4 p-4">
+                {analysis.imageUrl ? (
+                  <img
+                    src={analysis.imageUrl}
+                    alt="Deleted analysis"
+                    className="h-16 w-16 rounded-md object-cover"
+                  />
+                ) : (
+                  <div className="h-16 w-16 rounded-md bg-gray-100" />
+                )}
+                <div className="flex-1 space-y-1">
+                  <div className="font-medium">{resultLabel(analysis.result) ?? "No result"}</div>
+                  <div className="text-sm text-gray-500">
+                    Deleted {formatDistance(new Date(analysis.deletedAt), new Date(), {
+                      addSuffix: true,
+                    })}
+                    {" · "}
+                    permanently removed {formatDistance(new Date(analysis.restorableUntil), new Date(), {
+                      addSuffix: true,
+                    })}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleRestore(analysis.id)}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
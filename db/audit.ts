@@ -0,0 +1,39 @@
+// What the audit log records. Shared by the server (middleware, queries) and the
+// client (admin audit screen filters).
+export const AUDIT_ACTIONS = [
+  { id: "view", label: "Viewed" },
+  { id: "create", label: "Created" },
+  { id: "update", label: "Changed" },
+  { id: "delete", label: "Deleted" },
+  // Image files leave the system as downloads, so fetching one is an export
+  { id: "export", label: "Exported" },
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]["id"];
+
+export const AUDIT_ACTION_IDS = AUDIT_ACTIONS.map(action => action.id) as [AuditAction, ...AuditAction[]];
+
+export const AUDIT_RESOURCES = [
+  { id: "analysis", label: "Analysis" },
+  { id: "exam", label: "Exam" },
+  { id: "image", label: "Image" },
+  { id: "lesion", label: "Lesion" },
+  { id: "notification", label: "Notification" },
+  { id: "patient", label: "Patient" },
+  { id: "risk_assessment", label: "Risk assessment" },
+] as const;
+
+export type AuditResource = (typeof AUDIT_RESOURCES)[number]["id"];
+
+export const AUDIT_RESOURCE_IDS = AUDIT_RESOURCES.map(resource => resource.id) as [
+  AuditResource,
+  ...AuditResource[],
+];
+
+export function auditActionLabel(action: string) {
+  return AUDIT_ACTIONS.find(entry => entry.id === action)?.label ?? action;
+}
+
+export function auditResourceLabel(resource: string) {
+  return AUDIT_RESOURCES.find(entry => entry.id === resource)?.label ?? resource;
+}
@@ -0,0 +1,113 @@
+// Result taxonomy for an analysis. Shared by the server (validation, prompts,
+// aggregation) and the client (labels, filters). Each category allows a range of
+// severities and carries the referral urgency it calls for.
+export const SEVERITIES = ["low", "medium", "high"] as const;
+
+export type Severity = (typeof SEVERITIES)[number];
+
+export const REFERRAL_URGENCIES = [
+  { id: "none", label: "No referral needed" },
+  { id: "routine", label: "Routine check" },
+  { id: "soon", label: "See a clinician soon" },
+  { id: "urgent", label: "Urgent specialist referral" },
+] as const;
+
+export type ReferralUrgency = (typeof REFERRAL_URGENCIES)[number]["id"];
+
+export const RESULT_CATEGORIES = [
+  {
+    id: "normal_variant",
+    label: "Normal variant",
+    description: "healthy mucosa or a harmless anatomical variant such as fordyce spots, leukoedema or a geographic tongue",
+    severities: ["low"],
+    referral: "none",
+  },
+  {
+    id: "benign_inflammatory",
+    label: "Benign inflammatory",
+    description: "an inflammatory or traumatic change with an evident benign cause, such as an aphthous ulcer, frictional keratosis or candidiasis",
+    severities: ["low", "medium"],
+    referral: "routine",
+  },
+  {
+    id: "leukoplakia",
+    label: "Leukoplakia",
+    description: "a white patch that cannot be wiped off or attributed to another condition",
+    severities: ["medium", "high"],
+    referral: "soon",
+  },
+  {
+    id: "erythroplakia",
+    label: "Erythroplakia",
+    description: "a red velvety patch not attributable to another condition",
+    severities: ["high"],
+    referral: "urgent",
+  },
+  {
+    id: "oral_submucous_fibrosis",
+    label: "Oral submucous fibrosis",
+    description: "blanched, marble-like mucosa with fibrous bands, typically in betel quid chewers",
+    severities: ["medium", "high"],
+    referral: "soon",
+  },
+  {
+    id: "ulcer_uncertain_cause",
+    label: "Ulcer of uncertain cause",
+    description: "an ulcer without an evident benign cause",
+    severities: ["medium", "high"],
+    referral: "soon",
+  },
+  {
+    id: "suspicious_for_malignancy",
+    label: "Suspicious for malignancy",
+    description: "features of oral cancer such as an indurated or non-healing ulcer, an exophytic mass or a mixed red-white lesion with irregular borders",
+    severities: ["high"],
+    referral: "urgent",
+  },
+  {
+    id: "inconclusive",
+    label: "Inconclusive",
+    description: "the image does not allow a reliable assessment",
+    severities: ["low", "medium"],
+    referral: "routine",
+  },
+] as const satisfies readonly {
+  id: string;
+  label: string;
+  description: string;
+  severities: readonly Severity[];
+  referral: ReferralUrgency;
+}[];
+
+export type ResultCategory = (typeof RESULT_CATEGORIES)[number]["id"];
+
+export const RESULT_CATEGORY_IDS = RESULT_CATEGORIES.map(category => category.id) as [
+  ResultCategory,
+  ...ResultCategory[],
+];
+
+export function resultCategory(result: string | null | undefined) {
+  return RESULT_CATEGORIES.find(category => category.id === result);
+}
+
+export function resultLabel(result: string | null | undefined) {
+  return resultCategory(result)?.label ?? result ?? null;
+}
+
+export function referralUrgency(result: string | null | undefined): ReferralUrgency | null {
+  return resultCategory(result)?.referral ?? null;
+}
+
+export function referralLabel(urgency: string | null | undefined) {
+  return REFERRAL_URGENCIES.find(entry => entry.id === urgency)?.label ?? null;
+}
+
+// Move a severity into the range its category allows, e.g. erythroplakia is
+// always high however mild the model thought it looked
+export function constrainSeverity(result: ResultCategory, severity: Severity): Severity {
+  const allowed: readonly Severity[] = resultCategory(result)!.severities;
+  if (allowed.includes(severity)) return severity;
+
+  const rank = SEVERITIES.indexOf(severity);
+  return rank < SEVERITIES.indexOf(allowed[0]) ? allowed[0] : allowed[allowed.length - 1];
+}
@@ -0,0 +1,56 @@
+// One-off data migration from the old Normal/Concerning results to the result
+// taxonomy in db/categories.ts. Run it before `npm run db:push`, whose CHECK
+// constraints reject the old values:
+//
+//   npm run db:migrate-taxonomy && npm run db:push
+//
+// "Normal" becomes a normal variant. "Concerning" only carried a severity, so
+// high-severity rows become suspicious for malignancy and the rest inconclusive,
+// which keeps them flagged for follow-up without claiming a specific diagnosis.
+// Rows already in the new taxonomy are left alone, so it is safe to run twice.
+import { sql } from "drizzle-orm";
+import { db } from "@db";
+
+async function migrate() {
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`ALTER TABLE analyses ADD COLUMN IF NOT EXISTS referral_urgency text`);
+
+    const normal = await tx.execute(sql`
+      UPDATE analyses
+      SET result = 'normal_variant', severity = 'low', referral_urgency = 'none'
+      WHERE result = 'Normal'
+    `);
+    const suspicious = await tx.execute(sql`
+      UPDATE analyses
+      SET result = 'suspicious_for_malignancy', referral_urgency = 'urgent'
+      WHERE result = 'Concerning' AND severity = 'high'
+    `);
+    const inconclusive = await tx.execute(sql`
+      UPDATE analyses
+      SET result = 'inconclusive', severity = 'medium', referral_urgency = 'routine'
+      WHERE result = 'Concerning'
+    `);
+
+    const exams = await tx.execute(sql`
+      UPDATE exams
+      SET result = CASE
+        WHEN result = 'Normal' THEN 'normal_variant'
+        WHEN result = 'Concerning' AND severity = 'high' THEN 'suspicious_for_malignancy'
+        ELSE 'inconclusive'
+      END
+      WHERE result IN ('Normal', 'Concerning', 'Inconclusive')
+    `);
+
+    console.log(
+      `Migrated analyses: ${normal.rowCount} normal, ${suspicious.rowCount} suspicious, ` +
+      `${inconclusive.rowCount} inconclusive; ${exams.rowCount} exams`
+    );
+  });
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Result taxonomy migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,36 @@
+// One-off backfill for the review lifecycle in db/review.ts. `npm run db:push`
+// adds review_status with a default of 'pending', which is wrong for analyses
+// the worker had already finished; run this afterwards:
+//
+//   npm run db:push && npm run db:migrate-review-status
+//
+// Completed analyses move to ai_complete with a system transition recorded, as
+// if the worker had made it. Only pending rows are touched, so it is safe to
+// run twice.
+import { sql } from "drizzle-orm";
+import { db } from "@db";
+
+async function migrate() {
+  await db.transaction(async (tx) => {
+    const transitions = await tx.execute(sql`
+      INSERT INTO review_transitions (analysis_id, from_status, to_status, actor_id, actor_role, created_at)
+      SELECT id, 'pending', 'ai_complete', NULL, 'system', COALESCE(completed_at, timestamp)
+      FROM analyses
+      WHERE status = 'complete' AND review_status = 'pending'
+    `);
+    const analyses = await tx.execute(sql`
+      UPDATE analyses
+      SET review_status = 'ai_complete', review_status_changed_at = COALESCE(completed_at, timestamp)
+      WHERE status = 'complete' AND review_status = 'pending'
+    `);
+
+    console.log(`Moved ${analyses.rowCount} analyses to ai_complete (${transitions.rowCount} transitions recorded)`);
+  });
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Review status migration failed:", error);
+    process.exit(1);
+  });
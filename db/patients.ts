@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+// Demographics of a patient record. Shared by the server (validation) and the
+// client (patient form, picker).
+export const SEXES = [
+  { id: "female", label: "Female" },
+  { id: "male", label: "Male" },
+  { id: "other", label: "Other" },
+  { id: "unknown", label: "Not recorded" },
+] as const;
+
+export type Sex = (typeof SEXES)[number]["id"];
+
+export const SEX_IDS = SEXES.map(sex => sex.id) as [Sex, ...Sex[]];
+
+// Optional text fields come from form inputs, where "not given" is an empty string
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+export const patientSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  dateOfBirth: z.union([z.literal(""), z.string().date("Use the format YYYY-MM-DD")]).optional(),
+  sex: z.enum(SEX_IDS),
+  // Medical record number in the clinic's own system
+  mrn: optionalText(64),
+  phone: optionalText(32),
+  email: z.union([z.literal(""), z.string().trim().email()]).optional(),
+});
+
+export type PatientDetails = z.infer<typeof patientSchema>;
+
+export function sexLabel(sex: string | null | undefined) {
+  return SEXES.find(entry => entry.id === sex)?.label ?? sex ?? null;
+}
@@ -0,0 +1,76 @@
+// Review lifecycle of an analysis, separate from the processing `status` of the
+// background job. Shared by the server (enforcement) and the client (badges,
+// filters, available actions).
+export const REVIEW_STATUSES = [
+  { id: "pending", label: "Pending" },
+  { id: "ai_complete", label: "AI complete" },
+  { id: "under_review", label: "Under review" },
+  { id: "confirmed", label: "Confirmed" },
+  { id: "overridden", label: "Overridden" },
+  { id: "dismissed", label: "Dismissed" },
+  { id: "closed", label: "Closed" },
+] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number]["id"];
+
+export const REVIEW_STATUS_IDS = REVIEW_STATUSES.map(status => status.id) as [
+  ReviewStatus,
+  ...ReviewStatus[],
+];
+
+import type { Role } from "./roles";
+
+// "system" is the analysis worker; the other roles are people, see db/roles.ts
+export type ReviewRole = "system" | Role;
+
+const REVIEWERS: ReviewRole[] = ["clinician", "admin"];
+
+// Every allowed move and who may make it; anything not listed is rejected
+export const REVIEW_TRANSITIONS: { from: ReviewStatus; to: ReviewStatus; roles: ReviewRole[] }[] = [
+  { from: "pending", to: "ai_complete", roles: ["system"] },
+  { from: "ai_complete", to: "under_review", roles: ["patient", "health_worker", ...REVIEWERS] },
+  { from: "under_review", to: "confirmed", roles: REVIEWERS },
+  { from: "under_review", to: "overridden", roles: REVIEWERS },
+  { from: "under_review", to: "dismissed", roles: REVIEWERS },
+  { from: "confirmed", to: "closed", roles: REVIEWERS },
+  { from: "overridden", to: "closed", roles: REVIEWERS },
+  { from: "dismissed", to: "closed", roles: REVIEWERS },
+];
+
+export function canTransition(from: string, to: string, role: ReviewRole) {
+  return REVIEW_TRANSITIONS.some(transition =>
+    transition.from === from && transition.to === to && transition.roles.includes(role)
+  );
+}
+
+export function allowedTransitions(from: string, role: ReviewRole) {
+  return REVIEW_TRANSITIONS
+    .filter(transition => transition.from === from && transition.roles.includes(role))
+    .map(transition => transition.to);
+}
+
+export function reviewStatusLabel(status: string | null | undefined) {
+  return REVIEW_STATUSES.find(entry => entry.id === status)?.label ?? status ?? null;
+}
+
+// What a clinician can decide about an AI result, and the status each decision
+// moves the analysis to
+export const REVIEW_DECISIONS = [
+  { id: "confirm", label: "Confirm", status: "confirmed" },
+  { id: "override", label: "Override", status: "overridden" },
+  { id: "retake", label: "Request retake", status: "dismissed" },
+] as const satisfies readonly { id: string; label: string; status: ReviewStatus }[];
+
+export type ReviewDecision = (typeof REVIEW_DECISIONS)[number]["id"];
+
+export const REVIEW_DECISION_IDS = REVIEW_DECISIONS.map(decision => decision.id) as [
+  ReviewDecision,
+  ...ReviewDecision[],
+];
+
+// Statuses only reachable by recording a decision, never by a bare transition
+export const DECISION_STATUSES: ReviewStatus[] = REVIEW_DECISIONS.map(decision => decision.status);
+
+export function reviewDecisionLabel(decision: string | null | undefined) {
+  return REVIEW_DECISIONS.find(entry => entry.id === decision)?.label ?? decision ?? null;
+}
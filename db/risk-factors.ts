@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+// Risk-factor questionnaire answers. Shared by the server (validation, prompts,
+// risk score) and the client (questionnaire form, history).
+export const TOBACCO_OPTIONS = [
+  { id: "never", label: "Never used" },
+  { id: "former", label: "Former user" },
+  { id: "current", label: "Current user" },
+] as const;
+
+export const BETEL_QUID_OPTIONS = [
+  { id: "never", label: "Never chewed" },
+  { id: "former", label: "Former chewer" },
+  { id: "current", label: "Currently chews" },
+] as const;
+
+export const ALCOHOL_OPTIONS = [
+  { id: "none", label: "None" },
+  { id: "moderate", label: "Up to 14 drinks a week" },
+  { id: "heavy", label: "More than 14 drinks a week" },
+] as const;
+
+export const HPV_OPTIONS = [
+  { id: "unknown", label: "Unknown / not tested" },
+  { id: "negative", label: "Negative" },
+  { id: "positive", label: "Positive" },
+] as const;
+
+type OptionIds<T extends readonly { id: string }[]> = [T[number]["id"], ...T[number]["id"][]];
+
+function optionIds<T extends readonly { id: string }[]>(options: T) {
+  return options.map(option => option.id) as OptionIds<T>;
+}
+
+export const riskFactorsSchema = z.object({
+  tobacco: z.enum(optionIds(TOBACCO_OPTIONS)),
+  betelQuid: z.enum(optionIds(BETEL_QUID_OPTIONS)),
+  alcohol: z.enum(optionIds(ALCOHOL_OPTIONS)),
+  age: z.coerce.number().int().min(1).max(120),
+  hpv: z.enum(optionIds(HPV_OPTIONS)),
+});
+
+export type RiskFactors = z.infer<typeof riskFactorsSchema>;
+
+export function optionLabel(options: readonly { id: string; label: string }[], id: string) {
+  return options.find(option => option.id === id)?.label ?? id;
+}
@@ -0,0 +1,41 @@
+// User roles, assigned by an admin as a Firebase custom claim and mirrored into
+// the users table. Shared by the server (authorization) and the client
+// (navigation, admin screens).
+export const ROLES = [
+  { id: "patient", label: "Patient" },
+  { id: "health_worker", label: "Health worker" },
+  { id: "clinician", label: "Clinician" },
+  { id: "admin", label: "Admin" },
+] as const;
+
+export type Role = (typeof ROLES)[number]["id"];
+
+export const ROLE_IDS = ROLES.map(role => role.id) as [Role, ...Role[]];
+
+// Everyone signs up as a patient until an admin says otherwise
+export const DEFAULT_ROLE: Role = "patient";
+
+// Capabilities that are not tied to owning a resource. Ownership checks live
+// with the resource, see server/lib/permissions.ts.
+export const PERMISSIONS = {
+  "analyses:read_clinic": ["clinician", "admin"],
+  "analyses:read_any": ["admin"],
+  "analyses:review": ["clinician", "admin"],
+  "patients:manage": ["health_worker", "clinician", "admin"],
+  "users:manage": ["admin"],
+  "audit:read": ["admin"],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function isRole(value: unknown): value is Role {
+  return ROLE_IDS.includes(value as Role);
+}
+
+export function hasPermission(role: string, permission: Permission) {
+  return (PERMISSIONS[permission] as readonly string[]).includes(role);
+}
+
+export function roleLabel(role: string | null | undefined) {
+  return ROLES.find(entry => entry.id === role)?.label ?? role ?? null;
+}
@@ -1,41 +1,411 @@
 import {
   pgTable,
   text,
+  date,
   serial,
   timestamp,
   uuid,
   decimal,
+  index,
+  integer,
+  jsonb,
+  check,
 } from "drizzle-orm/pg-core";
-import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { relations, sql } from "drizzle-orm";
+import { z } from "zod";
+import { RESULT_CATEGORY_IDS, REFERRAL_URGENCIES, SEVERITIES } from "./categories";
+import { REVIEW_DECISION_IDS, REVIEW_STATUS_IDS } from "./review";
+import { ROLE_IDS } from "./roles";
+import { SEX_IDS } from "./patients";
+import { AUDIT_ACTION_IDS, AUDIT_RESOURCE_IDS } from "./audit";
+import { createInsertSchema, createSelectSchema, createUpdateSchema } from "drizzle-zod";
+
+// A practice whose staff share patient records
+export const clinics = pgTable("clinics", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   firebaseId: text("firebase_id").unique().notNull(),
   email: text("email").unique().notNull(),
+  // Staff belong to at most one clinic, assigned by an admin
+  clinicId: uuid("clinic_id").references(() => clinics.id, { onDelete: "set null" }),
+  // Mirror of the Firebase "role" custom claim, see db/roles.ts
+  role: text("role").notNull().default('patient'),
+  // When an admin last changed the role; ID tokens issued before this carry a stale claim
+  roleUpdatedAt: timestamp("role_updated_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  check("users_role_check", sql.raw(`${table.role.name} IN (${sqlList(ROLE_IDS)})`)),
+]);
+
+// Literal list for CHECK constraints over the shared enumerations
+function sqlList(values: readonly string[]) {
+  return values.map(value => `'${value}'`).join(", ");
+}
+
+// A suspicious area located by the model. Coordinates are fractions (0-1) of
+// the processed image's width and height, measured from its top-left corner.
+export type LesionRegion =
+  | { type: "box"; label: string; confidence: number; x: number; y: number; width: number; height: number }
+  | { type: "polygon"; label: string; confidence: number; points: [number, number][] };
+
+// How a lesion changed since its previous capture, as judged by the model
+export interface LesionComparison {
+  size: "smaller" | "unchanged" | "larger";
+  color: "improved" | "unchanged" | "worsened";
+  border: "improved" | "unchanged" | "worsened";
+  trend: "improving" | "stable" | "worsening";
+  summary: string;
+}
+
+// Next step for the user, chosen by the rule table in server/lib/recommendations.ts
+export interface Recommendation {
+  action: "self_monitor" | "see_dentist" | "specialist_referral";
+  urgency: string;
+  withinDays: number;
+  title: string;
+  reason: string;
+}
+
+// One screening visit made up of several analyses, one per site
+export const exams = pgTable("exams", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").references(() => users.firebaseId).notNull(),
+  status: text("status").notNull().default('pending'),
+  // Category of the exam's most urgent image, see db/categories.ts
+  result: text("result"),
+  severity: text("severity"),
+  summary: text("summary"),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("exams_user_id_timestamp_idx").on(table.userId, table.timestamp),
+  check("exams_result_check", sql.raw(`${table.result.name} IN (${sqlList(RESULT_CATEGORY_IDS)})`)),
+]);
+
+// One set of questionnaire answers; the newest row is the user's current profile
+// and older rows are kept as history
+export const riskAssessments = pgTable("risk_assessments", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").references(() => users.firebaseId).notNull(),
+  // Values are the option ids in db/risk-factors.ts
+  tobacco: text("tobacco").notNull(),
+  betelQuid: text("betel_quid").notNull(),
+  alcohol: text("alcohol").notNull(),
+  age: integer("age").notNull(),
+  hpv: text("hpv").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("risk_assessments_user_id_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+// A single lesion followed across visits; each capture of it is an analysis
+export const lesions = pgTable("lesions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").references(() => users.firebaseId).notNull(),
+  // Whose mouth the lesion is in, when a health worker or clinician tracks it
+  patientId: uuid("patient_id").references(() => patients.id),
+  site: text("site"),
+  label: text("label"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("lesions_user_id_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+// Someone being screened, who may never have an account of their own. Held by a
+// clinic, or by the clinician who created it when they work without one.
+export const patients = pgTable("patients", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  clinicId: uuid("clinic_id").references(() => clinics.id),
+  createdBy: text("created_by").references(() => users.firebaseId).notNull(),
+  name: text("name").notNull(),
+  dateOfBirth: date("date_of_birth", { mode: "string" }),
+  // One of SEXES in db/patients.ts
+  sex: text("sex").notNull().default('unknown'),
+  // Medical record number in the clinic's own system
+  mrn: text("mrn"),
+  phone: text("phone"),
+  email: text("email"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("patients_clinic_id_name_idx").on(table.clinicId, table.name),
+  index("patients_created_by_name_idx").on(table.createdBy, table.name),
+  index("patients_mrn_idx").on(table.mrn),
+  check("patients_sex_check", sql.raw(`${table.sex.name} IN (${sqlList(SEX_IDS)})`)),
+]);
 
 export const analyses = pgTable("analyses", {
   id: uuid("id").defaultRandom().primaryKey(),
+  // The account that uploaded the image
   userId: text("user_id").references(() => users.firebaseId).notNull(),
-  imageUrl: text("image_url").notNull(),
-  result: text("result").notNull(),
-  confidence: decimal("confidence", { precision: 4, scale: 3 }).notNull(),
-  explanation: text("explanation").notNull(),
+  // The patient pictured, when a clinician or health worker screens someone else
+  patientId: uuid("patient_id").references(() => patients.id, { onDelete: "set null" }),
+  examId: uuid("exam_id").references(() => exams.id, { onDelete: "cascade" }),
+  examPosition: integer("exam_position"),
+  lesionId: uuid("lesion_id").references(() => lesions.id, { onDelete: "set null" }),
+  // Questionnaire answers in effect when the image was uploaded
+  riskAssessmentId: uuid("risk_assessment_id").references(() => riskAssessments.id),
+  // One of ANATOMICAL_SITES in db/sites.ts
+  site: text("site"),
+  // Raw upload waiting for the analysis worker; removed once processed
+  uploadKey: text("upload_key"),
+  imageKey: text("image_key"),
+  originalWidth: integer("original_width"),
+  originalHeight: integer("original_height"),
+  processedWidth: integer("processed_width"),
+  processedHeight: integer("processed_height"),
+  // One of RESULT_CATEGORIES in db/categories.ts
+  result: text("result"),
+  confidence: decimal("confidence", { precision: 4, scale: 3 }),
+  explanation: text("explanation"),
+  // The model's own free-text advice
   recommendations: text("recommendations"),
-  severity: text("severity").notNull(),
+  // Recommendation from the rule table
+  recommendation: jsonb("recommendation"),
+  findings: text("findings").array(),
+  // LesionRegion[] located by the model
+  regions: jsonb("regions"),
+  // LesionComparison against the previous capture of the same lesion
+  comparison: jsonb("comparison"),
+  // Composite of the image result and risk factors, see server/lib/risk.ts
+  riskScore: integer("risk_score"),
+  riskLevel: text("risk_level"),
+  severity: text("severity"),
+  referralUrgency: text("referral_urgency"),
   status: text("status").notNull().default('pending'),
+  stage: text("stage").notNull().default('queued'),
+  attempts: integer("attempts").notNull().default(0),
+  // Review lifecycle, see db/review.ts; `status` above tracks the analysis job
+  reviewStatus: text("review_status").notNull().default('pending'),
+  reviewStatusChangedAt: timestamp("review_status_changed_at"),
+  error: text("error"),
+  errorCode: text("error_code"),
+  errorDetails: jsonb("error_details"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
   patientNotes: text("patient_notes"),
   followUpDate: timestamp("follow_up_date"),
+  // Cleared whenever followUpDate changes so the new date gets its own reminder
+  followUpReminderSentAt: timestamp("follow_up_reminder_sent_at"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("analyses_user_id_timestamp_idx").on(table.userId, table.timestamp, table.id),
+  index("analyses_user_id_confidence_idx").on(table.userId, table.confidence, table.id),
+  index("analyses_status_timestamp_idx").on(table.status, table.timestamp),
+  index("analyses_follow_up_date_idx").on(table.followUpDate),
+  index("analyses_review_status_timestamp_idx").on(table.reviewStatus, table.timestamp),
+  index("analyses_patient_id_timestamp_idx").on(table.patientId, table.timestamp),
+  index("analyses_exam_id_idx").on(table.examId, table.examPosition),
+  index("analyses_lesion_id_timestamp_idx").on(table.lesionId, table.timestamp),
+  check("analyses_result_check", sql.raw(`${table.result.name} IN (${sqlList(RESULT_CATEGORY_IDS)})`)),
+  check("analyses_severity_check", sql.raw(`${table.severity.name} IN (${sqlList(SEVERITIES)})`)),
+  check("analyses_review_status_check", sql.raw(`${table.reviewStatus.name} IN (${sqlList(REVIEW_STATUS_IDS)})`)),
+  check(
+    "analyses_referral_urgency_check",
+    sql.raw(`${table.referralUrgency.name} IN (${sqlList(REFERRAL_URGENCIES.map(urgency => urgency.id))})`)
+  ),
+]);
 
+// Append-only log of user edits to an analysis: one row per save, with the
+// previous and new value of every field that changed
+export const analysisRevisions = pgTable("analysis_revisions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  analysisId: uuid("analysis_id").references(() => analyses.id, { onDelete: "cascade" }).notNull(),
+  changedBy: text("changed_by").references(() => users.firebaseId).notNull(),
+  // { [field]: { from, to } }
+  changes: jsonb("changes").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("analysis_revisions_analysis_id_created_at_idx").on(table.analysisId, table.createdAt),
+]);
+
+// Every review status change of an analysis, who made it and when
+export const reviewTransitions = pgTable("review_transitions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  analysisId: uuid("analysis_id").references(() => analyses.id, { onDelete: "cascade" }).notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  // Null for transitions made by the analysis worker
+  actorId: text("actor_id").references(() => users.firebaseId),
+  actorRole: text("actor_role").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("review_transitions_analysis_id_created_at_idx").on(table.analysisId, table.createdAt),
+]);
+
+// A clinician's verdict on an analysis. Kept apart from the analysis row so the
+// model's output stays exactly as it was produced.
+export const reviewDecisions = pgTable("review_decisions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  analysisId: uuid("analysis_id").references(() => analyses.id, { onDelete: "cascade" }).notNull(),
+  reviewerId: text("reviewer_id").references(() => users.firebaseId).notNull(),
+  // One of REVIEW_DECISIONS in db/review.ts
+  decision: text("decision").notNull(),
+  // The clinician's category and severity; set for overrides, copied from the model for confirmations
+  result: text("result"),
+  severity: text("severity"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("review_decisions_analysis_id_created_at_idx").on(table.analysisId, table.createdAt),
+  check("review_decisions_decision_check", sql.raw(`${table.decision.name} IN (${sqlList(REVIEW_DECISION_IDS)})`)),
+  check("review_decisions_result_check", sql.raw(`${table.result.name} IN (${sqlList(RESULT_CATEGORY_IDS)})`)),
+  check("review_decisions_severity_check", sql.raw(`${table.severity.name} IN (${sqlList(SEVERITIES)})`)),
+]);
+
+// In-app messages, e.g. follow-up reminders, shown until the user reads them
+export const notifications = pgTable("notifications", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").references(() => users.firebaseId).notNull(),
+  analysisId: uuid("analysis_id").references(() => analyses.id, { onDelete: "cascade" }),
+  type: text("type").notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  readAt: timestamp("read_at"),
+}, (table) => [
+  index("notifications_user_id_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+// Append-only record of every request touching analyses, images or patients.
+// Each row's hash covers its contents and the previous row's hash, so editing
+// or removing a row breaks the chain from that point on, see server/lib/audit.ts.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  // Null when the request was not signed in, e.g. an image fetched by signed URL
+  actorId: text("actor_id"),
+  actorRole: text("actor_role"),
+  action: text("action").notNull(),
+  resourceType: text("resource_type").notNull(),
+  // Null for list requests
+  resourceId: text("resource_id"),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code").notNull(),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").notNull(),
+  prevHash: text("prev_hash"),
+  hash: text("hash").notNull().unique(),
+}, (table) => [
+  index("audit_log_resource_idx").on(table.resourceType, table.resourceId, table.id),
+  index("audit_log_actor_id_idx").on(table.actorId, table.id),
+  index("audit_log_created_at_idx").on(table.createdAt),
+  check("audit_log_action_check", sql.raw(`${table.action.name} IN (${sqlList(AUDIT_ACTION_IDS)})`)),
+  check("audit_log_resource_type_check", sql.raw(`${table.resourceType.name} IN (${sqlList(AUDIT_RESOURCE_IDS)})`)),
+]);
+
+export const auditLogRelations = relations(auditLog, ({ one }) => ({
+  actor: one(users, { fields: [auditLog.actorId], references: [users.firebaseId] }),
+}));
+
+export const clinicsRelations = relations(clinics, ({ many }) => ({
+  staff: many(users),
+  patients: many(patients),
+}));
+
+export const usersRelations = relations(users, ({ one }) => ({
+  clinic: one(clinics, { fields: [users.clinicId], references: [clinics.id] }),
+}));
+
+export const patientsRelations = relations(patients, ({ one, many }) => ({
+  clinic: one(clinics, { fields: [patients.clinicId], references: [clinics.id] }),
+  analyses: many(analyses),
+}));
+
+export const examsRelations = relations(exams, ({ many }) => ({
+  analyses: many(analyses),
+}));
+
+export const lesionsRelations = relations(lesions, ({ one, many }) => ({
+  patient: one(patients, { fields: [lesions.patientId], references: [patients.id] }),
+  analyses: many(analyses),
+}));
+
+export const analysisRevisionsRelations = relations(analysisRevisions, ({ one }) => ({
+  analysis: one(analyses, { fields: [analysisRevisions.analysisId], references: [analyses.id] }),
+  author: one(users, { fields: [analysisRevisions.changedBy], references: [users.firebaseId] }),
+}));
+
+export const reviewTransitionsRelations = relations(reviewTransitions, ({ one }) => ({
+  analysis: one(analyses, { fields: [reviewTransitions.analysisId], references: [analyses.id] }),
+  actor: one(users, { fields: [reviewTransitions.actorId], references: [users.firebaseId] }),
+}));
+
+export const reviewDecisionsRelations = relations(reviewDecisions, ({ one }) => ({
+  analysis: one(analyses, { fields: [reviewDecisions.analysisId], references: [analyses.id] }),
+  reviewer: one(users, { fields: [reviewDecisions.reviewerId], references: [users.firebaseId] }),
+}));
+
+export const analysesRelations = relations(analyses, ({ one, many }) => ({
+  owner: one(users, { fields: [analyses.userId], references: [users.firebaseId] }),
+  patient: one(patients, { fields: [analyses.patientId], references: [patients.id] }),
+  decisions: many(reviewDecisions),
+  exam: one(exams, { fields: [analyses.examId], references: [exams.id] }),
+  lesion: one(lesions, { fields: [analyses.lesionId], references: [lesions.id] }),
+  riskAssessment: one(riskAssessments, {
+    fields: [analyses.riskAssessmentId],
+    references: [riskAssessments.id],
+  }),
+}));
+
+export const insertAuditEntrySchema = createInsertSchema(auditLog);
+export const selectAuditEntrySchema = createSelectSchema(auditLog);
+export const insertClinicSchema = createInsertSchema(clinics);
+export const selectClinicSchema = createSelectSchema(clinics);
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
+export const insertPatientSchema = createInsertSchema(patients);
+export const selectPatientSchema = createSelectSchema(patients);
+export const insertExamSchema = createInsertSchema(exams);
+export const selectExamSchema = createSelectSchema(exams);
+export const insertRiskAssessmentSchema = createInsertSchema(riskAssessments);
+export const selectRiskAssessmentSchema = createSelectSchema(riskAssessments);
+export const insertLesionSchema = createInsertSchema(lesions);
+export const selectLesionSchema = createSelectSchema(lesions);
+export const insertAnalysisRevisionSchema = createInsertSchema(analysisRevisions);
+export const selectAnalysisRevisionSchema = createSelectSchema(analysisRevisions);
+export const insertReviewTransitionSchema = createInsertSchema(reviewTransitions);
+export const selectReviewTransitionSchema = createSelectSchema(reviewTransitions);
+export const insertReviewDecisionSchema = createInsertSchema(reviewDecisions);
+export const selectReviewDecisionSchema = createSelectSchema(reviewDecisions);
+export const insertNotificationSchema = createInsertSchema(notifications);
+export const selectNotificationSchema = createSelectSchema(notifications);
 export const insertAnalysisSchema = createInsertSchema(analyses);
+export const updateAnalysisSchema = createUpdateSchema(analyses).extend({
+  result: z.enum(RESULT_CATEGORY_IDS).nullable().optional(),
+  severity: z.enum(SEVERITIES).nullable().optional(),
+});
 export const selectAnalysisSchema = createSelectSchema(analyses);
 
+export type InsertAuditEntry = typeof auditLog.$inferInsert;
+export type SelectAuditEntry = typeof auditLog.$inferSelect;
+export type InsertClinic = typeof clinics.$inferInsert;
+export type SelectClinic = typeof clinics.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 export type SelectUser = typeof users.$inferSelect;
+export type InsertPatient = typeof patients.$inferInsert;
+export type SelectPatient = typeof patients.$inferSelect;
+export type InsertExam = typeof exams.$inferInsert;
+export type SelectExam = typeof exams.$inferSelect;
+export type InsertRiskAssessment = typeof riskAssessments.$inferInsert;
+export type SelectRiskAssessment = typeof riskAssessments.$inferSelect;
+export type InsertLesion = typeof lesions.$inferInsert;
+export type SelectLesion = typeof lesions.$inferSelect;
+export type InsertAnalysisRevision = typeof analysisRevisions.$inferInsert;
+export type SelectAnalysisRevision = typeof analysisRevisions.$inferSelect;
+export type InsertReviewTransition = typeof reviewTransitions.$inferInsert;
+export type SelectReviewTransition = typeof reviewTransitions.$inferSelect;
+export type InsertReviewDecision = typeof reviewDecisions.$inferInsert;
+export type SelectReviewDecision = typeof reviewDecisions.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type SelectNotification = typeof notifications.$inferSelect;
 export type InsertAnalysis = typeof analyses.$inferInsert;
 export type SelectAnalysis = typeof analyses.$inferSelect;
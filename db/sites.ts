@@ -0,0 +1,31 @@
+// Anatomical sites of the oral cavity an image can be tagged with. Shared by the
+// server (validation, prompts) and the client (mouth map, filters); left and right
+// are from the patient's point of view.
+export const ANATOMICAL_SITES = [
+  { id: "upper_lip", label: "Upper lip" },
+  { id: "lower_lip", label: "Lower lip" },
+  { id: "buccal_mucosa_right", label: "Right buccal mucosa" },
+  { id: "buccal_mucosa_left", label: "Left buccal mucosa" },
+  { id: "tongue_dorsal", label: "Dorsal tongue" },
+  { id: "tongue_lateral_right", label: "Right lateral tongue" },
+  { id: "tongue_lateral_left", label: "Left lateral tongue" },
+  { id: "tongue_ventral", label: "Ventral tongue" },
+  { id: "floor_of_mouth", label: "Floor of mouth" },
+  { id: "hard_palate", label: "Hard palate" },
+  { id: "soft_palate", label: "Soft palate" },
+  { id: "gingiva_upper", label: "Upper gingiva" },
+  { id: "gingiva_lower", label: "Lower gingiva" },
+  { id: "retromolar_trigone_right", label: "Right retromolar trigone" },
+  { id: "retromolar_trigone_left", label: "Left retromolar trigone" },
+] as const;
+
+export type AnatomicalSite = (typeof ANATOMICAL_SITES)[number]["id"];
+
+export const ANATOMICAL_SITE_IDS = ANATOMICAL_SITES.map(site => site.id) as [
+  AnatomicalSite,
+  ...AnatomicalSite[],
+];
+
+export function siteLabel(site: string | null | undefined) {
+  return ANATOMICAL_SITES.find(entry => entry.id === site)?.label ?? null;
+}
@@ -0,0 +1,25 @@
+// Assign a role from the command line, e.g. to make the first admin before
+// anyone can use the admin screen:
+//
+//   npm run assign-role -- someone@example.com admin
+import { isRole, ROLE_IDS } from "@db/roles";
+import { auth } from "./lib/firebase";
+import { assignRole } from "./lib/roles";
+
+async function main() {
+  const [email, role] = process.argv.slice(2);
+  if (!email || !isRole(role)) {
+    throw new Error(`Usage: npm run assign-role -- <email> <${ROLE_IDS.join("|")}>`);
+  }
+
+  const account = await auth.getUserByEmail(email);
+  await assignRole(account.uid, role);
+  console.log(`${email} is now ${role}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Role assignment failed:", error);
+    process.exit(1);
+  });
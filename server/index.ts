@@ -3,6 +3,14 @@ import fileUpload from "express-fileupload";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { db } from "@db";
+import { startTrashPurgeJob } from "./lib/trash";
+import { startAnalysisWorker } from "./lib/jobs";
+import { getAnalysisProvider } from "./lib/providers";
+import { getStorage } from "./lib/storage";
+import { getRecommendationRules } from "./lib/recommendations";
+import { startFollowUpReminderJob } from "./lib/followups";
+import { getEmailTransport } from "./lib/email";
+import { cleanUpTempFiles } from "./lib/uploads";
 import "./lib/firebase"; // Import Firebase initialization
 
 // Function to verify required environment variables
@@ -10,7 +18,7 @@ function checkRequiredEnvVars() {
   const required = [
     "DATABASE_URL",
     "FIREBASE_SERVICE_ACCOUNT",
-    "ANTHROPIC_API_KEY"
+    "AUDIT_LOG_SECRET"
   ];
   
   const missing = required.filter(key => !process.env[key]);
@@ -25,6 +33,12 @@ async function startServer() {
     // Verify environment variables before starting the server
     checkRequiredEnvVars();
 
+    // Fail fast if the configured analysis provider, storage, rule table or email transport is misconfigured
+    getAnalysisProvider();
+    getStorage();
+    getRecommendationRules();
+    getEmailTransport();
+
     // Initialize Express app
     const app = express();
     
@@ -42,6 +56,7 @@ async function startServer() {
       parseNested: true,
       abortOnLimit: true
     }));
+    app.use(cleanUpTempFiles);
 
     // Request logging middleware
     app.use((req, res, next) => {
@@ -113,6 +128,15 @@ async function startServer() {
       serveStatic(app);
     }
 
+    // Periodically remove analyses whose trash window has expired
+    startTrashPurgeJob();
+
+    // Process queued analyses in the background
+    startAnalysisWorker();
+
+    // Remind users of upcoming follow-ups
+    startFollowUpReminderJob();
+
     // Start the server
     const PORT = 5000;
     server.listen(PORT, "0.0.0.0", () => {
@@ -0,0 +1,257 @@
+import { z } from "zod";
+import { siteLabel } from "@db/sites";
+import { RESULT_CATEGORIES, RESULT_CATEGORY_IDS, SEVERITIES } from "@db/categories";
+import type { AnalysisProvider, AnalysisRequest, ProviderTurn } from "./providers";
+
+const CATEGORY_LIST = RESULT_CATEGORIES
+  .map(category => `- "${category.id}": ${category.description} (severity ${category.severities.join(" or ")})`)
+  .join("\n");
+
+const BASE_PROMPT = `Please analyze this oral cavity image for signs of cancer. Focus on identifying any suspicious lesions, abnormal growths, or discoloration that might indicate early signs of oral cancer.
+
+Respond with a single JSON object and nothing else, using exactly this structure:
+{
+  "result": one of the category ids listed below,
+  "confidence": number between 0 and 1,
+  "explanation": string with detailed findings,
+  "severity": "low", "medium" or "high",
+  "recommendations": string with suggested next steps,
+  "findings": array of short strings, one per observed feature,
+  "regions": array of suspicious regions, empty if there are none
+}
+Each region locates one suspicious area in the image and is either a box:
+{ "type": "box", "label": string, "confidence": number between 0 and 1, "x": number, "y": number, "width": number, "height": number }
+or a polygon tracing the lesion outline:
+{ "type": "polygon", "label": string, "confidence": number between 0 and 1, "points": [[x, y], ...] }
+All coordinates are fractions between 0 and 1 of the image width and height, measured from the top-left corner.
+Choose "result" from these categories, using a severity the category allows:
+${CATEGORY_LIST}
+If the image does not allow an assessment, still respond with this structure using "inconclusive" and explain why in "explanation" with a low confidence.`;
+
+const COMPARISON_PROMPT = `Compare the lesion with its previous capture and add a "comparison" field to your JSON object:
+"comparison": {
+  "size": "smaller", "unchanged" or "larger",
+  "color": "improved", "unchanged" or "worsened",
+  "border": "improved", "unchanged" or "worsened",
+  "trend": "improving", "stable" or "worsening",
+  "summary": string describing the change between the two captures
+}
+Base "result", "severity" and "regions" on the current image only. A lesion that persists or grows over two to three weeks is a warning sign in itself.`;
+
+export interface PromptContext {
+  site?: string | null;
+  // When set, a previous capture of the same lesion follows the current image
+  priorCapturedAt?: Date | null;
+  // Summary of the patient's risk-factor questionnaire
+  riskFactors?: string | null;
+}
+
+export function buildAnalysisPrompt({ site, priorCapturedAt, riskFactors }: PromptContext = {}) {
+  const sections = [BASE_PROMPT];
+
+  const label = siteLabel(site);
+  if (label) {
+    sections.push(`The image was taken of the ${label.toLowerCase()}. Consider the normal anatomy and the lesions typical of this site.`);
+  }
+
+  if (riskFactors) {
+    sections.push(`Patient risk factors: ${riskFactors}. Take them into account when weighing ambiguous findings, but describe only what is visible in the image.`);
+  }
+
+  if (priorCapturedAt) {
+    sections.push(
+      `The first image is the current capture. The second image shows the same lesion on ${priorCapturedAt.toISOString().slice(0, 10)}.`,
+      COMPARISON_PROMPT,
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+const coordinate = z.number().min(0).max(1);
+
+const regionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("box"),
+    label: z.string().min(1),
+    confidence: z.number().min(0).max(1),
+    x: coordinate,
+    y: coordinate,
+    width: coordinate,
+    height: coordinate,
+  }),
+  z.object({
+    type: z.literal("polygon"),
+    label: z.string().min(1),
+    confidence: z.number().min(0).max(1),
+    points: z.array(z.tuple([coordinate, coordinate])).min(3),
+  }),
+]);
+
+const changeSchema = z.enum(["improved", "unchanged", "worsened"]);
+
+const comparisonSchema = z.object({
+  size: z.enum(["smaller", "unchanged", "larger"]),
+  color: changeSchema,
+  border: changeSchema,
+  trend: z.enum(["improving", "stable", "worsening"]),
+  summary: z.string().min(1),
+});
+
+export const modelResponseSchema = z.object({
+  result: z.enum(RESULT_CATEGORY_IDS),
+  confidence: z.number().min(0).max(1),
+  explanation: z.string().min(1),
+  severity: z.enum(SEVERITIES),
+  recommendations: z.string().min(1),
+  findings: z.array(z.string()).default([]),
+  regions: z.array(regionSchema).default([]),
+  comparison: comparisonSchema.optional(),
+});
+
+export type ModelResponse = z.infer<typeof modelResponseSchema>;
+
+export type AnalysisOutcome =
+  | { ok: true; analysis: ModelResponse; attempts: number }
+  | { ok: false; reason: "inconclusive"; attempts: number; errors: string[] };
+
+const maxAttempts = Math.max(1, Number(process.env.ANALYSIS_MAX_ATTEMPTS ?? 3));
+
+// Return the first balanced {...} block in the text, ignoring braces inside strings
+function findJsonObject(text: string) {
+  const start = text.indexOf("{");
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === "{") depth++;
+    else if (char === "}" && --depth === 0) return text.slice(start, i + 1);
+  }
+  return null;
+}
+
+// Models often wrap the JSON in prose or a markdown code fence
+export function extractJson(text: string): unknown {
+  const candidates = [text.trim()];
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  const object = findJsonObject(text);
+  if (object) candidates.push(object);
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next candidate
+    }
+  }
+  throw new Error("Response did not contain a valid JSON object");
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t",
+};
+
+// Decode as much of the "explanation" string value as has arrived so far in a
+// partially generated JSON reply
+export function extractPartialExplanation(text: string) {
+  const start = text.match(/"explanation"\s*:\s*"/);
+  if (!start || start.index === undefined) return "";
+
+  let value = "";
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+
+    const escape = text[i + 1];
+    if (escape === undefined) break;
+    if (escape === "u") {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += JSON_ESCAPES[escape] ?? escape;
+      i++;
+    }
+  }
+  return value;
+}
+
+export interface AnalysisHooks {
+  onModelStart?: (attempt: number) => void;
+  onExplanation?: (delta: string) => void;
+  onParsing?: () => void;
+}
+
+function describeErrors(error: unknown) {
+  if (error instanceof z.ZodError) {
+    return error.issues.map(issue => `${issue.path.join(".") || "response"}: ${issue.message}`);
+  }
+  return [error instanceof Error ? error.message : String(error)];
+}
+
+// Ask the provider for an analysis, feeding validation errors back to it until
+// it produces a response matching modelResponseSchema or we run out of attempts
+export async function runAnalysis(
+  provider: AnalysisProvider,
+  request: AnalysisRequest,
+  hooks: AnalysisHooks = {},
+): Promise<AnalysisOutcome> {
+  const history: ProviderTurn[] = [...(request.history ?? [])];
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    hooks.onModelStart?.(attempt);
+
+    let streamed = "";
+    let explanation = "";
+    const text = await provider.analyze({ ...request, history }, delta => {
+      if (!hooks.onExplanation) return;
+      streamed += delta;
+      const partial = extractPartialExplanation(streamed);
+      if (partial.length > explanation.length) {
+        hooks.onExplanation(partial.slice(explanation.length));
+        explanation = partial;
+      }
+    });
+
+    hooks.onParsing?.();
+    console.log(`Raw analysis response (attempt ${attempt}):`, text);
+
+    try {
+      const analysis = modelResponseSchema.parse(extractJson(text));
+      return { ok: true, analysis, attempts: attempt };
+    } catch (error) {
+      errors = describeErrors(error);
+      console.log("Analysis response failed validation:", errors);
+
+      history.push(
+        { role: "assistant", content: text },
+        {
+          role: "user",
+          content: `Your response could not be used because of these problems:\n- ${errors.join("\n- ")}\nRespond again with only the corrected JSON object.`,
+        },
+      );
+    }
+  }
+
+  return { ok: false, reason: "inconclusive", attempts: maxAttempts, errors };
+}
@@ -0,0 +1,200 @@
+import { createHmac } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { asc, desc, gt, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@db";
+import { auditLog, type SelectAuditEntry } from "@db/schema";
+import type { AuditAction, AuditResource } from "@db/audit";
+
+// Serializes appends so every entry links to the one before it. Any constant
+// works as long as nothing else takes the same advisory lock.
+const AUDIT_LOCK_KEY = 7311;
+const VERIFY_BATCH_SIZE = 1000;
+// Clients poll analysis status and exams every second or so. One view per
+// actor, path and outcome in this window is enough to show who saw what.
+const viewWindowMs = Number(process.env.AUDIT_VIEW_WINDOW_MS ?? 60 * 1000);
+const MAX_TRACKED_VIEWS = 10000;
+
+type AuditFields = Pick<
+  SelectAuditEntry,
+  "actorId" | "actorRole" | "action" | "resourceType" | "resourceId" | "method" | "path" | "statusCode" | "ip" | "createdAt" | "prevHash"
+>;
+
+// The key lives outside the database, so someone able to edit the table cannot
+// recompute the chain to cover their changes
+function auditSecret() {
+  const secret = process.env.AUDIT_LOG_SECRET;
+  if (!secret) throw new Error("AUDIT_LOG_SECRET must be set to sign the audit log");
+  return secret;
+}
+
+// HMAC-SHA256 over the entry's fields in a fixed order, including the previous hash
+function hashAuditEntry(entry: AuditFields) {
+  const canonical = JSON.stringify([
+    entry.actorId,
+    entry.actorRole,
+    entry.action,
+    entry.resourceType,
+    entry.resourceId,
+    entry.method,
+    entry.path,
+    entry.statusCode,
+    entry.ip,
+    entry.createdAt.toISOString(),
+    entry.prevHash,
+  ]);
+  return createHmac("sha256", auditSecret()).update(canonical).digest("hex");
+}
+
+export async function appendAuditEntry(entry: Omit<AuditFields, "createdAt" | "prevHash">) {
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${AUDIT_LOCK_KEY})`);
+    const [last] = await tx.select({ hash: auditLog.hash })
+      .from(auditLog)
+      .orderBy(desc(auditLog.id))
+      .limit(1);
+
+    const fields: AuditFields = { ...entry, createdAt: new Date(), prevHash: last?.hash ?? null };
+    await tx.insert(auditLog).values({ ...fields, hash: hashAuditEntry(fields) });
+  });
+}
+
+export interface AuditVerification {
+  checked: number;
+  valid: boolean;
+  // The first entry whose hash or link does not match
+  brokenAt?: number;
+  reason?: string;
+  // The newest entry. Recording its hash elsewhere and passing it as the anchor
+  // of a later check detects entries removed from the end of the log.
+  head: { id: number; hash: string } | null;
+}
+
+// Walk the whole log in order, recomputing each hash and checking each link,
+// and that the anchor hash, if given, is still part of the chain
+export async function verifyAuditChain(anchor?: string): Promise<AuditVerification> {
+  let checked = 0;
+  let head: AuditVerification["head"] = null;
+  let anchored = !anchor;
+  let prevHash: string | null = null;
+  let afterId = 0;
+
+  while (true) {
+    const rows = await db.select()
+      .from(auditLog)
+      .where(gt(auditLog.id, afterId))
+      .orderBy(asc(auditLog.id))
+      .limit(VERIFY_BATCH_SIZE);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      if (row.prevHash !== prevHash) {
+        return { checked, valid: false, brokenAt: row.id, reason: "Does not link to the previous entry", head };
+      }
+      if (row.hash !== hashAuditEntry(row)) {
+        return { checked, valid: false, brokenAt: row.id, reason: "Contents do not match the hash", head };
+      }
+      if (row.hash === anchor) anchored = true;
+      prevHash = row.hash;
+      head = { id: row.id, hash: row.hash };
+      checked++;
+    }
+    afterId = rows[rows.length - 1].id;
+  }
+
+  if (!anchored) {
+    return { checked, valid: false, reason: "The anchored entry is missing, entries were removed", head };
+  }
+  return { checked, valid: true, head };
+}
+
+const AUDITED_ROUTES: { pattern: RegExp; resource: AuditResource }[] = [
+  { pattern: /^\/api\/images\/([^/]+)/, resource: "image" },
+  { pattern: /^\/api\/patients(?:\/([^/]+))?/, resource: "patient" },
+  { pattern: /^\/api\/exams(?:\/([^/]+))?/, resource: "exam" },
+  { pattern: /^\/api\/analysis(?:\/([^/]+))?/, resource: "analysis" },
+  { pattern: /^\/api\/review\/([^/]+)\/decision$/, resource: "analysis" },
+  { pattern: /^\/api\/review\/queue$/, resource: "analysis" },
+  { pattern: /^\/api\/follow-ups$/, resource: "analysis" },
+  { pattern: /^\/api\/lesions(?:\/([^/]+))?/, resource: "lesion" },
+  { pattern: /^\/api\/risk-factors$/, resource: "risk_assessment" },
+  { pattern: /^\/api\/notifications(?:\/([^/]+))?/, resource: "notification" },
+];
+
+const uuidSchema = z.string().uuid();
+
+function auditAction(method: string, resource: AuditResource, hasId: boolean, path: string): AuditAction | null {
+  switch (method) {
+    case "GET":
+      return resource === "image" ? "export" : "view";
+    case "POST":
+      // Posting to a collection creates; posting to an item (restore, transitions, decisions, read) changes it
+      return hasId || path.startsWith("/api/review/") ? "update" : "create";
+    case "PATCH":
+    case "PUT":
+      return "update";
+    case "DELETE":
+      return "delete";
+    default:
+      return null;
+  }
+}
+
+const recentViews = new Map<string, number>();
+
+function isRepeatedView(key: string, now = Date.now()) {
+  const last = recentViews.get(key);
+  if (last !== undefined && now - last < viewWindowMs) return true;
+
+  recentViews.set(key, now);
+  if (recentViews.size > MAX_TRACKED_VIEWS) {
+    recentViews.forEach((at, seen) => {
+      if (now - at >= viewWindowMs) recentViews.delete(seen);
+    });
+  }
+  return false;
+}
+
+// Record every request to an audited route once its response is done, whether
+// it succeeded, was refused or the client went away first (an event stream may
+// already have sent data by then). Mounted before authentication so signed image
+// URLs are covered too; the user, if any, is read when the response ends.
+export function auditTrail(req: Request, res: Response, next: NextFunction) {
+  const path = req.originalUrl.split("?")[0];
+  const route = AUDITED_ROUTES.find(({ pattern }) => pattern.test(path));
+  if (!route) return next();
+
+  const segment = path.match(route.pattern)?.[1];
+  const pathId = segment && (route.resource === "image" || uuidSchema.safeParse(segment).success)
+    ? segment
+    : null;
+  const action = auditAction(req.method, route.resource, !!pathId, path);
+  if (!action) return next();
+
+  // A create only learns its id from the response
+  let createdId: string | null = null;
+  const originalJson = res.json;
+  res.json = function (body, ...args) {
+    if (typeof body?.id === "string") createdId = body.id;
+    return originalJson.apply(res, [body, ...args]);
+  };
+
+  res.on("close", () => {
+    const actorId = req.user?.firebaseId ?? null;
+    if (action === "view" && isRepeatedView(`${actorId}|${path}|${res.statusCode}`)) return;
+
+    appendAuditEntry({
+      actorId,
+      actorRole: req.user?.role ?? null,
+      action,
+      resourceType: route.resource,
+      resourceId: pathId ?? (action === "create" ? createdId : null),
+      method: req.method,
+      path,
+      statusCode: res.statusCode,
+      ip: req.ip ?? null,
+    }).catch(error => console.error("Audit log error:", error));
+  });
+
+  next();
+}
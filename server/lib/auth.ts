@@ -0,0 +1,79 @@
+import type { Request, Response, NextFunction } from "express";
+import { FirebaseAuthError } from "firebase-admin/auth";
+import { sql } from "drizzle-orm";
+import { db } from "@db";
+import { users, type SelectUser } from "@db/schema";
+import { DEFAULT_ROLE, isRole } from "@db/roles";
+import { auth } from "./firebase";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SelectUser;
+    }
+  }
+}
+
+function sendAuthError(res: Response, status: 401 | 403, code: string, error: string) {
+  return res.status(status).json({ error, code });
+}
+
+function getBearerToken(req: Request) {
+  const header = req.headers.authorization;
+  if (!header) return null;
+
+  const [scheme, token] = header.split(" ");
+  if (scheme !== "Bearer" || !token) return null;
+  return token;
+}
+
+// Verify the Firebase ID token and attach the matching users row to the request
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token) {
+    return sendAuthError(res, 401, "auth/missing-token", "Authentication required");
+  }
+
+  let decoded;
+  try {
+    decoded = await auth.verifyIdToken(token, true);
+  } catch (error) {
+    if (error instanceof FirebaseAuthError) {
+      if (error.code === "auth/id-token-expired") {
+        return sendAuthError(res, 401, error.code, "Authentication token has expired");
+      }
+      if (error.code === "auth/user-disabled") {
+        return sendAuthError(res, 403, error.code, "This account has been disabled");
+      }
+    }
+    console.log("ID token verification failed:", error);
+    return sendAuthError(res, 401, "auth/invalid-token", "Invalid authentication token");
+  }
+
+  if (!decoded.email) {
+    return sendAuthError(res, 403, "auth/missing-email", "An email address is required to use this service");
+  }
+
+  // The token's role claim is mirrored into users, unless an admin has changed
+  // the role since the token was issued and the claim is stale
+  const role = isRole(decoded.role) ? decoded.role : DEFAULT_ROLE;
+  const issuedAt = new Date(decoded.iat * 1000);
+
+  try {
+    const [user] = await db.insert(users)
+      .values({ firebaseId: decoded.uid, email: decoded.email, role })
+      .onConflictDoUpdate({
+        target: users.firebaseId,
+        set: {
+          email: decoded.email,
+          role: sql`CASE WHEN ${users.roleUpdatedAt} IS NULL OR ${users.roleUpdatedAt} < ${issuedAt} THEN ${role} ELSE ${users.role} END`,
+        },
+      })
+      .returning();
+
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { createLogTransport } from "./log";
+import { createSmtpTransport } from "./smtp";
+import type { EmailTransport } from "./types";
+
+export type { EmailMessage, EmailTransport } from "./types";
+
+const factories: Record<string, () => EmailTransport> = {
+  log: createLogTransport,
+  smtp: createSmtpTransport,
+};
+
+let transport: EmailTransport | undefined;
+
+// The transport is chosen once from EMAIL_TRANSPORT (defaults to log)
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  const name = process.env.EMAIL_TRANSPORT || "log";
+  const factory = factories[name];
+  if (!factory) {
+    throw new Error(
+      `Unknown EMAIL_TRANSPORT "${name}". Supported transports: ${Object.keys(factories).join(", ")}`
+    );
+  }
+
+  transport = factory();
+  console.log(`Using ${transport.name} email transport`);
+  return transport;
+}
@@ -0,0 +1,11 @@
+import type { EmailTransport } from "./types";
+
+// Writes emails to the server log instead of sending them
+export function createLogTransport(): EmailTransport {
+  return {
+    name: "log",
+    async send({ to, subject, text }) {
+      console.log(`Email to ${to}: ${subject}\n${text}`);
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import nodemailer from "nodemailer";
+import type { EmailTransport } from "./types";
+
+// Any SMTP server; point SMTP_HOST/SMTP_PORT at a local stand-in such as
+// MailHog or smtp4dev to see the messages during development
+export function createSmtpTransport(): EmailTransport {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.EMAIL_FROM;
+  if (!host || !from) {
+    throw new Error("The smtp email transport requires SMTP_HOST and EMAIL_FROM");
+  }
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send({ to, subject, text }) {
+      await transporter.sendMail({ from, to, subject, text });
+    },
+  };
+}
@@ -0,0 +1,11 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Delivers notification emails to users
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import { EventEmitter } from "events";
+import type { AnalysisStage } from "./jobs";
+
+export type AnalysisEvent =
+  | { type: "stage"; stage: AnalysisStage; attempt?: number }
+  | { type: "text"; delta: string }
+  | { type: "complete"; analysis: unknown }
+  | { type: "failed"; error: string; errorCode: string; errorDetails: unknown };
+
+// In-process fan-out of analysis lifecycle events to SSE subscribers. Events
+// only reach clients connected to the instance running the job; the status
+// endpoint remains the source of truth.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishAnalysisEvent(id: string, event: AnalysisEvent) {
+  emitter.emit(id, event);
+}
+
+export function subscribeToAnalysis(id: string, listener: (event: AnalysisEvent) => void) {
+  emitter.on(id, listener);
+  return () => {
+    emitter.off(id, listener);
+  };
+}
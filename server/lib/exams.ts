@@ -0,0 +1,74 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@db";
+import { analyses, exams, type SelectAnalysis, type SelectExam } from "@db/schema";
+import { referralUrgency } from "@db/categories";
+import { serializeAnalysis } from "./serialize";
+
+const SEVERITY_RANK: Record<string, number> = { low: 1, medium: 2, high: 3 };
+const URGENCY_RANK: Record<string, number> = { none: 0, routine: 1, soon: 2, urgent: 3 };
+
+function urgencyOf(row: SelectAnalysis) {
+  return row.referralUrgency ?? referralUrgency(row.result) ?? "none";
+}
+
+// Order by referral urgency first, then severity within the same urgency
+function compareFindings(a: SelectAnalysis, b: SelectAnalysis) {
+  const urgency = URGENCY_RANK[urgencyOf(a)] - URGENCY_RANK[urgencyOf(b)];
+  if (urgency !== 0) return urgency;
+  return (SEVERITY_RANK[a.severity ?? ""] ?? 0) - (SEVERITY_RANK[b.severity ?? ""] ?? 0);
+}
+
+// An exam is only as reassuring as its worst site: the exam takes the category of
+// its most urgent image, and a failed image means a normal result cannot be claimed
+export function aggregateExamResult(rows: SelectAnalysis[]) {
+  const completed = rows.filter(row => row.status === "complete");
+  const failed = rows.filter(row => row.status === "failed");
+  const flagged = completed.filter(row => urgencyOf(row) !== "none");
+
+  if (completed.length === 0) {
+    return {
+      status: "failed",
+      result: null,
+      severity: null,
+      summary: "None of the images could be analyzed",
+    };
+  }
+
+  const worst = [...completed].sort(compareFindings).pop()!;
+  const result = worst.result === "normal_variant" && failed.length > 0 ? "inconclusive" : worst.result;
+  const parts = [`${completed.length} of ${rows.length} images analyzed`];
+  if (flagged.length > 0) parts.push(`${flagged.length} need follow-up`);
+  if (failed.length > 0) parts.push(`${failed.length} could not be analyzed`);
+
+  return {
+    status: "complete",
+    result,
+    severity: worst.severity,
+    summary: parts.join(", "),
+  };
+}
+
+// Recompute the exam once every analysis in it has finished. Deleted analyses
+// are left out, since the worker never picks up a deleted pending one.
+export async function updateExamAggregate(examId: string) {
+  const rows = await db.query.analyses.findMany({
+    where: and(eq(analyses.examId, examId), isNull(analyses.deletedAt)),
+  });
+  if (rows.some(row => row.status !== "complete" && row.status !== "failed")) {
+    await db.update(exams).set({ status: "processing" }).where(eq(exams.id, examId));
+    return;
+  }
+
+  const aggregate = aggregateExamResult(rows);
+  await db.update(exams)
+    .set({ ...aggregate, completedAt: new Date() })
+    .where(eq(exams.id, examId));
+  console.log(`Exam ${examId} ${aggregate.status}: ${aggregate.summary}`);
+}
+
+export function serializeExam(exam: SelectExam & { analyses: SelectAnalysis[] }) {
+  return {
+    ...exam,
+    analyses: exam.analyses.map(serializeAnalysis),
+  };
+}
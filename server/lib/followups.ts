@@ -0,0 +1,93 @@
+import { and, eq, isNotNull, isNull, lte } from "drizzle-orm";
+import { db } from "@db";
+import { analyses, insertNotificationSchema, notifications, users, type Recommendation } from "@db/schema";
+import { resultLabel } from "@db/categories";
+import { siteLabel } from "@db/sites";
+import { getEmailTransport } from "./email";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days until the suggested follow-up, by severity
+const FOLLOW_UP_DAYS: Record<string, number> = {
+  low: Number(process.env.FOLLOW_UP_DAYS_LOW ?? 90),
+  medium: Number(process.env.FOLLOW_UP_DAYS_MEDIUM ?? 30),
+  high: Number(process.env.FOLLOW_UP_DAYS_HIGH ?? 14),
+};
+
+// Reminders go out this many days before the follow-up date
+const reminderLeadDays = Number(process.env.FOLLOW_UP_REMINDER_LEAD_DAYS ?? 2);
+const reminderIntervalMs = Number(process.env.FOLLOW_UP_REMINDER_INTERVAL_MS ?? 60 * 60 * 1000);
+
+// Never later than the recommendation asks the user to act or re-check by
+export function suggestFollowUpDate(
+  severity: string | null,
+  recommendation: Pick<Recommendation, "withinDays"> | null,
+  from = new Date(),
+) {
+  const days = Math.min(FOLLOW_UP_DAYS[severity ?? ""] || Infinity, recommendation?.withinDays ?? Infinity);
+  if (days === Infinity) return null;
+  return new Date(from.getTime() + days * DAY_MS);
+}
+
+// Notify the owners of analyses whose follow-up is coming up, in the app and by
+// email. Each follow-up date is reminded about once.
+export async function sendDueReminders(now = new Date()) {
+  const due = await db.select({ analysis: analyses, email: users.email })
+    .from(analyses)
+    .innerJoin(users, eq(users.firebaseId, analyses.userId))
+    .where(and(
+      isNotNull(analyses.followUpDate),
+      lte(analyses.followUpDate, new Date(now.getTime() + reminderLeadDays * DAY_MS)),
+      isNull(analyses.followUpReminderSentAt),
+      isNull(analyses.deletedAt)
+    ));
+
+  for (const { analysis, email } of due) {
+    const date = analysis.followUpDate!.toISOString().slice(0, 10);
+    const subject = `Follow-up due ${date}`;
+    const what = [resultLabel(analysis.result), siteLabel(analysis.site)].filter(Boolean).join(", ");
+    const body = `Your oral screening${what ? ` (${what})` : ""} from ${analysis.timestamp.toISOString().slice(0, 10)} ` +
+      `is due for a follow-up on ${date}. Take a new photo of the same area or see your dentist as recommended.`;
+
+    try {
+      await db.transaction(async (tx) => {
+        await tx.insert(notifications).values(insertNotificationSchema.parse({
+          userId: analysis.userId,
+          analysisId: analysis.id,
+          type: "follow_up_reminder",
+          title: subject,
+          body,
+        }));
+        await tx.update(analyses)
+          .set({ followUpReminderSentAt: now })
+          .where(eq(analyses.id, analysis.id));
+      });
+    } catch (error) {
+      console.error(`Failed to record follow-up reminder for analysis ${analysis.id}:`, error);
+      continue;
+    }
+
+    // The in-app reminder is already recorded, so a failed email is not retried
+    await getEmailTransport().send({ to: email, subject, text: body }).catch(error => {
+      console.error(`Failed to email follow-up reminder for analysis ${analysis.id}:`, error);
+    });
+  }
+
+  if (due.length > 0) {
+    console.log(`Sent ${due.length} follow-up reminders`);
+  }
+  return due.length;
+}
+
+export function startFollowUpReminderJob() {
+  const run = () => {
+    sendDueReminders().catch(error => {
+      console.error("Follow-up reminders failed:", error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, reminderIntervalMs);
+  timer.unref();
+  return timer;
+}
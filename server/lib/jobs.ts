@@ -0,0 +1,308 @@
+import { and, eq, gte, inArray, isNull, lt, sql } from "drizzle-orm";
+import { db } from "@db";
+import { analyses, riskAssessments, updateAnalysisSchema, type SelectAnalysis } from "@db/schema";
+import { constrainSeverity } from "@db/categories";
+import { buildAnalysisPrompt, runAnalysis } from "./analysis";
+import { preprocessImage } from "./preprocess";
+import { getAnalysisProvider, type AnalysisImage } from "./providers";
+import { assessImageQuality } from "./quality";
+import { getStorage, storeImage } from "./storage";
+import { publishAnalysisEvent } from "./events";
+import { serializeAnalysis } from "./serialize";
+import { updateExamAggregate } from "./exams";
+import { findPriorCapture } from "./lesions";
+import { compositeRiskScore, describeRiskFactors } from "./risk";
+import { recommendFor } from "./recommendations";
+import { suggestFollowUpDate } from "./followups";
+import { transitionReview } from "./review";
+
+export type AnalysisStatus = "pending" | "processing" | "complete" | "failed";
+export type AnalysisStage =
+  | "queued"
+  | "preprocessing"
+  | "quality_check"
+  | "analyzing"
+  | "parsing"
+  | "saving"
+  | "done";
+
+const pollIntervalMs = Number(process.env.ANALYSIS_POLL_INTERVAL_MS ?? 2000);
+const concurrency = Number(process.env.ANALYSIS_CONCURRENCY ?? 2);
+const maxJobAttempts = Number(process.env.ANALYSIS_JOB_MAX_ATTEMPTS ?? 3);
+// A job still "processing" after this long belonged to a worker that died
+const jobTimeoutMs = Number(process.env.ANALYSIS_JOB_TIMEOUT_MS ?? 5 * 60 * 1000);
+
+// A failure that retrying will not fix, reported to the client as-is
+export class AnalysisJobError extends Error {
+  constructor(message: string, public code: string, public details?: unknown) {
+    super(message);
+    this.name = "AnalysisJobError";
+  }
+}
+
+async function setStage(id: string, stage: AnalysisStage, attempt?: number) {
+  await db.update(analyses).set({ stage }).where(eq(analyses.id, id));
+  publishAnalysisEvent(id, { type: "stage", stage, attempt });
+}
+
+async function removeUpload(job: Pick<SelectAnalysis, "uploadKey">) {
+  if (!job.uploadKey) return;
+  await getStorage().delete(job.uploadKey).catch(error => {
+    console.error("Failed to remove processed upload:", error);
+  });
+}
+
+async function runPipeline(job: SelectAnalysis) {
+  const upload = job.uploadKey ? await getStorage().get(job.uploadKey) : null;
+  if (!upload) {
+    throw new AnalysisJobError("The uploaded image is no longer available", "UPLOAD_MISSING");
+  }
+
+  await setStage(job.id, "preprocessing");
+  const processed = await preprocessImage(upload.data);
+
+  await setStage(job.id, "quality_check");
+  const quality = await assessImageQuality(processed.data, processed.original);
+  if (!quality.passed) {
+    throw new AnalysisJobError(
+      "The image quality is too low for a reliable analysis",
+      "QUALITY_REJECTED",
+      { issues: quality.issues, metrics: quality.metrics }
+    );
+  }
+
+  const imageKey = await storeImage(processed.data, processed.mediaType);
+  await db.update(analyses)
+    .set({
+      imageKey,
+      originalWidth: processed.original.width,
+      originalHeight: processed.original.height,
+      processedWidth: processed.processed.width,
+      processedHeight: processed.processed.height,
+    })
+    .where(eq(analyses.id, job.id));
+
+  // Stage updates from the hooks are fire-and-forget so they never hold up the model stream
+  const trackStage = (stage: AnalysisStage, attempt?: number) => {
+    setStage(job.id, stage, attempt).catch(error => {
+      console.error("Failed to record analysis stage:", error);
+    });
+  };
+
+  const riskFactors = job.riskAssessmentId
+    ? await db.query.riskAssessments.findFirst({ where: eq(riskAssessments.id, job.riskAssessmentId) })
+    : undefined;
+  const prior = await findPriorCapture(job);
+  const images: AnalysisImage[] = [{ data: processed.data, mediaType: processed.mediaType }];
+  if (prior) images.push(prior.image);
+
+  const outcome = await runAnalysis(getAnalysisProvider(), {
+    prompt: buildAnalysisPrompt({
+      site: job.site,
+      priorCapturedAt: prior?.analysis.timestamp,
+      riskFactors: riskFactors && describeRiskFactors(riskFactors),
+    }),
+    images,
+  }, {
+    onModelStart: attempt => trackStage("analyzing", attempt),
+    onExplanation: delta => publishAnalysisEvent(job.id, { type: "text", delta }),
+    onParsing: () => trackStage("parsing"),
+  });
+  if (!outcome.ok) {
+    throw new AnalysisJobError(
+      "The image could not be analyzed reliably. Please try again or consult a clinician.",
+      "ANALYSIS_INCONCLUSIVE",
+      { errors: outcome.errors }
+    );
+  }
+
+  await setStage(job.id, "saving");
+  const analysisResult = outcome.analysis;
+  const severity = constrainSeverity(analysisResult.result, analysisResult.severity);
+  const risk = compositeRiskScore(analysisResult.result, severity, riskFactors ?? null);
+  const recommendation = recommendFor(analysisResult.result, severity);
+  const update = updateAnalysisSchema.parse({
+    result: analysisResult.result,
+    confidence: String(analysisResult.confidence),
+    explanation: analysisResult.explanation,
+    recommendations: analysisResult.recommendations,
+    severity,
+    recommendation,
+    referralUrgency: recommendation.urgency,
+    findings: analysisResult.findings,
+    regions: analysisResult.regions,
+    comparison: prior ? analysisResult.comparison ?? null : null,
+    riskScore: risk.score,
+    riskLevel: risk.level,
+    followUpDate: suggestFollowUpDate(severity, recommendation),
+    followUpReminderSentAt: null,
+  });
+
+  const saved = await db.transaction(async (tx) => {
+    const [completed] = await tx.update(analyses)
+      .set({
+        ...update,
+        status: "complete",
+        stage: "done",
+        uploadKey: null,
+        error: null,
+        errorCode: null,
+        errorDetails: null,
+        completedAt: new Date(),
+      })
+      .where(eq(analyses.id, job.id))
+      .returning();
+
+    // A retried job may already have moved on in review
+    if (completed.reviewStatus !== "pending") return completed;
+    return transitionReview(completed, "ai_complete", { user: null, role: "system" }, undefined, tx);
+  });
+
+  publishAnalysisEvent(job.id, { type: "complete", analysis: serializeAnalysis(saved) });
+}
+
+export async function processAnalysisJob(job: SelectAnalysis) {
+  console.log(`Processing analysis ${job.id} (attempt ${job.attempts})`);
+
+  try {
+    await runPipeline(job);
+    await removeUpload(job);
+    console.log(`Analysis ${job.id} complete`);
+  } catch (error) {
+    const terminal = error instanceof AnalysisJobError || job.attempts >= maxJobAttempts;
+    console.error(`Analysis ${job.id} failed${terminal ? "" : ", will retry"}:`, error);
+
+    const failure = {
+      error: error instanceof Error ? error.message : "Analysis failed",
+      errorCode: error instanceof AnalysisJobError ? error.code : "PROCESSING_ERROR",
+      errorDetails: error instanceof AnalysisJobError ? error.details ?? null : null,
+    };
+    await db.update(analyses)
+      .set({
+        ...failure,
+        ...(terminal ? { status: "failed" } : { status: "pending", stage: "queued" }),
+        uploadKey: terminal ? null : job.uploadKey,
+        completedAt: terminal ? new Date() : null,
+      })
+      .where(eq(analyses.id, job.id));
+
+    if (terminal) {
+      publishAnalysisEvent(job.id, { type: "failed", ...failure });
+      await removeUpload(job);
+    } else {
+      publishAnalysisEvent(job.id, { type: "stage", stage: "queued" });
+    }
+  }
+
+  if (job.examId) {
+    await updateExamAggregate(job.examId).catch(error => {
+      console.error(`Failed to update exam ${job.examId}:`, error);
+    });
+  }
+}
+
+// Atomically take the oldest pending job; SKIP LOCKED lets several workers share the table
+async function claimNextJob() {
+  const next = db.select({ id: analyses.id })
+    .from(analyses)
+    .where(and(eq(analyses.status, "pending"), isNull(analyses.deletedAt)))
+    .orderBy(analyses.timestamp)
+    .limit(1)
+    .for("update", { skipLocked: true });
+
+  const [job] = await db.update(analyses)
+    .set({
+      status: "processing",
+      startedAt: new Date(),
+      attempts: sql`${analyses.attempts} + 1`,
+    })
+    .where(inArray(analyses.id, next))
+    .returning();
+  return job;
+}
+
+// Put back jobs whose worker disappeared, e.g. because the server restarted
+async function recoverStaleJobs() {
+  const staleBefore = new Date(Date.now() - jobTimeoutMs);
+  const stale = and(eq(analyses.status, "processing"), lt(analyses.startedAt, staleBefore));
+
+  // Jobs out of attempts fail like any other terminal failure. Their upload keys
+  // are read first since the update clears them.
+  const expired = await db.select({ id: analyses.id, uploadKey: analyses.uploadKey })
+    .from(analyses)
+    .where(and(stale, gte(analyses.attempts, maxJobAttempts)));
+
+  if (expired.length > 0) {
+    const failure = { error: "Analysis did not finish", errorCode: "PROCESSING_TIMEOUT", errorDetails: null };
+    const timedOut = await db.update(analyses)
+      .set({ ...failure, status: "failed", uploadKey: null, completedAt: new Date() })
+      .where(and(stale, inArray(analyses.id, expired.map(job => job.id))))
+      .returning({ id: analyses.id, examId: analyses.examId });
+
+    for (const { id, examId } of timedOut) {
+      publishAnalysisEvent(id, { type: "failed", ...failure });
+      await removeUpload(expired.find(job => job.id === id)!);
+      if (examId) await updateExamAggregate(examId);
+    }
+  }
+
+  const requeued = await db.update(analyses)
+    .set({ status: "pending", stage: "queued" })
+    .where(stale)
+    .returning({ id: analyses.id });
+
+  if (requeued.length > 0) {
+    console.log(`Requeued ${requeued.length} stale analysis jobs`);
+  }
+}
+
+let active = 0;
+let pumping = false;
+
+async function pump() {
+  if (pumping) return;
+  pumping = true;
+
+  try {
+    while (active < concurrency) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      active++;
+      processAnalysisJob(job)
+        .catch(error => {
+          console.error("Analysis worker error:", error);
+        })
+        .finally(() => {
+          active--;
+          notifyAnalysisWorker();
+        });
+    }
+  } finally {
+    pumping = false;
+  }
+}
+
+// Wake the worker right away instead of waiting for the next poll
+export function notifyAnalysisWorker() {
+  pump().catch(error => {
+    console.error("Analysis worker error:", error);
+  });
+}
+
+export function startAnalysisWorker() {
+  // Orphaned jobs are found by timeout rather than reset wholesale at startup,
+  // since another server instance may still be working on them
+  const tick = () => {
+    recoverStaleJobs()
+      .then(() => pump())
+      .catch(error => {
+        console.error("Analysis worker error:", error);
+      });
+  };
+
+  tick();
+  const timer = setInterval(tick, pollIntervalMs);
+  timer.unref();
+  return timer;
+}
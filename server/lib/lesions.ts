@@ -0,0 +1,64 @@
+import { and, desc, eq, isNotNull, isNull, lt, ne } from "drizzle-orm";
+import { db } from "@db";
+import { analyses, type LesionComparison, type SelectAnalysis, type SelectLesion } from "@db/schema";
+import type { AnalysisImage, ImageMediaType } from "./providers";
+import { getStorage } from "./storage";
+import { serializeAnalysis } from "./serialize";
+
+export interface PriorCapture {
+  analysis: SelectAnalysis;
+  image: AnalysisImage;
+}
+
+// The most recent earlier capture of the job's lesion that still has its image,
+// sent to the model alongside the new one for a comparative assessment. Only
+// captures of the same patient count, or of none for the user's own lesions.
+export async function findPriorCapture(job: SelectAnalysis): Promise<PriorCapture | null> {
+  if (!job.lesionId) return null;
+
+  const prior = await db.query.analyses.findFirst({
+    where: and(
+      eq(analyses.lesionId, job.lesionId),
+      job.patientId ? eq(analyses.patientId, job.patientId) : isNull(analyses.patientId),
+      ne(analyses.id, job.id),
+      eq(analyses.status, "complete"),
+      isNotNull(analyses.imageKey),
+      isNull(analyses.deletedAt),
+      lt(analyses.timestamp, job.timestamp)
+    ),
+    orderBy: [desc(analyses.timestamp)],
+  });
+  if (!prior) return null;
+
+  const stored = await getStorage().get(prior.imageKey!);
+  if (!stored) {
+    console.error(`Image for prior capture ${prior.id} is missing, analyzing without comparison`);
+    return null;
+  }
+
+  return {
+    analysis: prior,
+    image: { data: stored.data, mediaType: stored.contentType as ImageMediaType },
+  };
+}
+
+// Direction of the lesion according to its latest comparative assessment
+export function lesionTrend(rows: SelectAnalysis[]) {
+  const compared = rows
+    .filter(row => row.status === "complete" && row.comparison)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  const latest = compared[0]?.comparison as LesionComparison | undefined;
+  return latest?.trend ?? null;
+}
+
+export function serializeLesion(lesion: SelectLesion & { analyses: SelectAnalysis[] }) {
+  const timeline = lesion.analyses
+    .filter(row => !row.deletedAt)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return {
+    ...lesion,
+    trend: lesionTrend(timeline),
+    analyses: timeline.map(serializeAnalysis),
+  };
+}
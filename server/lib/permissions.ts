@@ -0,0 +1,53 @@
+import type { Request, Response, NextFunction } from "express";
+import type { SelectAnalysis, SelectPatient, SelectUser } from "@db/schema";
+import { hasPermission, type Permission } from "@db/roles";
+
+export function can(user: SelectUser, permission: Permission) {
+  return hasPermission(user.role, permission);
+}
+
+// Reject the request unless the signed-in user's role grants the permission.
+// Must run after requireAuth.
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !can(req.user, permission)) {
+      return res.status(403).json({ error: "You do not have permission to do this", code: "auth/forbidden" });
+    }
+    next();
+  };
+}
+
+// Who else an analysis concerns: the patient it was taken of and the clinic of
+// the user who uploaded it. Load with ANALYSIS_SCOPE.
+export interface AnalysisScope {
+  patient: SelectPatient | null;
+  owner: { clinicId: string | null };
+}
+
+export const ANALYSIS_SCOPE = {
+  patient: true,
+  owner: { columns: { clinicId: true } },
+} as const;
+
+// Owners see their own analyses, staff those of patients they can access and
+// clinicians those of their clinic. Only admins see everyone's.
+export function canViewAnalysis(user: SelectUser, analysis: SelectAnalysis, scope: AnalysisScope) {
+  if (analysis.userId === user.firebaseId || can(user, "analyses:read_any")) return true;
+  if (scope.patient && canAccessPatient(user, scope.patient)) return true;
+  return can(user, "analyses:read_clinic") && user.clinicId !== null &&
+    (scope.patient?.clinicId === user.clinicId || scope.owner.clinicId === user.clinicId);
+}
+
+// Owners, and clinicians who can see an analysis, may edit, delete or restore it
+export function canModifyAnalysis(user: SelectUser, analysis: SelectAnalysis, scope: AnalysisScope) {
+  return analysis.userId === user.firebaseId ||
+    (can(user, "analyses:review") && canViewAnalysis(user, analysis, scope));
+}
+
+// Staff see their clinic's patients; without a clinic, the patients they created
+export function canAccessPatient(user: SelectUser, patient: SelectPatient) {
+  if (!can(user, "patients:manage") || patient.deletedAt) return false;
+  return patient.clinicId
+    ? patient.clinicId === user.clinicId
+    : patient.createdBy === user.firebaseId;
+}
@@ -0,0 +1,96 @@
+import sharp, { type Sharp } from "sharp";
+import heicConvert from "heic-convert";
+import bmp from "bmp-js";
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface PreprocessedImage {
+  data: Buffer;
+  mediaType: "image/jpeg" | "image/png";
+  original: ImageDimensions & { format: string };
+  processed: ImageDimensions;
+}
+
+const maxDimension = Number(process.env.IMAGE_MAX_DIMENSION ?? 2048);
+const jpegQuality = Number(process.env.IMAGE_JPEG_QUALITY ?? 90);
+
+const HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "mif1", "msf1"];
+
+function isHeif(data: Buffer) {
+  return data.length > 12
+    && data.toString("ascii", 4, 8) === "ftyp"
+    && HEIF_BRANDS.includes(data.toString("ascii", 8, 12));
+}
+
+function isBmp(data: Buffer) {
+  return data.length > 2 && data.toString("ascii", 0, 2) === "BM";
+}
+
+// sharp's prebuilt binaries cannot decode HEIC or BMP, so those are decoded in JS first
+async function decode(data: Buffer): Promise<{ image: Sharp; format?: string }> {
+  if (isHeif(data)) {
+    const jpeg = await heicConvert({ buffer: data, format: "JPEG", quality: 1 });
+    return { image: sharp(Buffer.from(jpeg)), format: "heic" };
+  }
+
+  if (isBmp(data)) {
+    const decoded = bmp.decode(data);
+    // bmp-js yields ABGR pixels
+    const rgb = Buffer.alloc(decoded.width * decoded.height * 3);
+    for (let src = 0, dst = 0; src < decoded.data.length; src += 4, dst += 3) {
+      rgb[dst] = decoded.data[src + 3];
+      rgb[dst + 1] = decoded.data[src + 2];
+      rgb[dst + 2] = decoded.data[src + 1];
+    }
+    const image = sharp(rgb, {
+      raw: { width: decoded.width, height: decoded.height, channels: 3 },
+    });
+    return { image, format: "bmp" };
+  }
+
+  return { image: sharp(data) };
+}
+
+// Normalize an upload before it is stored or sent to a model: apply the EXIF
+// orientation, drop all metadata (GPS location is PHI), cap the size and
+// re-encode as JPEG, or PNG when the source has transparency
+export async function preprocessImage(input: Buffer): Promise<PreprocessedImage> {
+  const { image, format } = await decode(input);
+  const metadata = await image.metadata();
+  if (!metadata.width || !metadata.height) {
+    throw new Error("Could not read image dimensions");
+  }
+
+  // EXIF orientations 5-8 are rotated by 90 degrees
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const original = {
+    width: rotated ? metadata.height : metadata.width,
+    height: rotated ? metadata.width : metadata.height,
+    format: format ?? metadata.format ?? "unknown",
+  };
+
+  const pipeline = image
+    .rotate()
+    .resize({
+      width: maxDimension,
+      height: maxDimension,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+
+  const usePng = !!metadata.hasAlpha && metadata.format === "png";
+  const { data, info } = await (usePng
+    ? pipeline.png()
+    : pipeline.flatten({ background: "#ffffff" }).jpeg({ quality: jpegQuality, mozjpeg: true })
+  ).toBuffer({ resolveWithObject: true });
+
+  return {
+    data,
+    mediaType: usePng ? "image/png" : "image/jpeg",
+    original,
+    processed: { width: info.width, height: info.height },
+  };
+}
@@ -0,0 +1,54 @@
+import { Anthropic } from "@anthropic-ai/sdk";
+import type { AnalysisProvider, AnalysisRequest } from "./types";
+
+// the newest Anthropic model is "claude-3-5-sonnet-20241022" which was released October 22, 2024
+const DEFAULT_MODEL = "claude-3-5-sonnet-20241022";
+
+export function createAnthropicProvider(): AnalysisProvider {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    throw new Error("ANTHROPIC_API_KEY environment variable is required for the anthropic provider");
+  }
+
+  const anthropic = new Anthropic({
+    apiKey: process.env.ANTHROPIC_API_KEY,
+  });
+  const model = process.env.ANTHROPIC_MODEL || DEFAULT_MODEL;
+
+  return {
+    name: "anthropic",
+    async analyze({ prompt, images, history = [] }: AnalysisRequest, onText) {
+      const stream = anthropic.messages.stream({
+        model,
+        max_tokens: 1024,
+        messages: [{
+          role: "user",
+          content: [
+            { type: "text", text: prompt },
+            ...images.map(image => ({
+              type: "image" as const,
+              source: {
+                type: "base64" as const,
+                media_type: image.mediaType,
+                data: image.data.toString("base64"),
+              },
+            })),
+          ],
+        }, ...history],
+      });
+      if (onText) {
+        stream.on("text", onText);
+      }
+
+      const response = await stream.finalMessage();
+      if (!response.content || response.content.length === 0) {
+        throw new Error("Empty response from Anthropic API");
+      }
+
+      const text = response.content[0].type === "text" ? response.content[0].text : "";
+      if (!text) {
+        throw new Error("Invalid response format from Anthropic API");
+      }
+      return text;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { createAnthropicProvider } from "./anthropic";
+import { createOpenAIProvider } from "./openai";
+import { createStubProvider } from "./stub";
+import type { AnalysisProvider } from "./types";
+
+export type { AnalysisImage, AnalysisProvider, AnalysisRequest, ImageMediaType, ProviderTurn } from "./types";
+
+const factories: Record<string, () => AnalysisProvider> = {
+  anthropic: createAnthropicProvider,
+  openai: createOpenAIProvider,
+  stub: createStubProvider,
+};
+
+let provider: AnalysisProvider | undefined;
+
+// The provider is chosen once from ANALYSIS_PROVIDER (defaults to anthropic)
+export function getAnalysisProvider(): AnalysisProvider {
+  if (provider) return provider;
+
+  const name = process.env.ANALYSIS_PROVIDER || "anthropic";
+  const factory = factories[name];
+  if (!factory) {
+    throw new Error(
+      `Unknown ANALYSIS_PROVIDER "${name}". Supported providers: ${Object.keys(factories).join(", ")}`
+    );
+  }
+
+  provider = factory();
+  console.log(`Using ${provider.name} analysis provider`);
+  return provider;
+}
@@ -0,0 +1,52 @@
+import OpenAI from "openai";
+import type { AnalysisProvider, AnalysisRequest } from "./types";
+
+const DEFAULT_MODEL = "gpt-4o";
+
+export function createOpenAIProvider(): AnalysisProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY environment variable is required for the openai provider");
+  }
+
+  const openai = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+  const model = process.env.OPENAI_MODEL || DEFAULT_MODEL;
+
+  return {
+    name: "openai",
+    async analyze({ prompt, images, history = [] }: AnalysisRequest, onText) {
+      const stream = await openai.chat.completions.create({
+        model,
+        max_tokens: 1024,
+        stream: true,
+        messages: [{
+          role: "user",
+          content: [
+            { type: "text", text: prompt },
+            ...images.map(image => ({
+              type: "image_url" as const,
+              image_url: {
+                url: `data:${image.mediaType};base64,${image.data.toString("base64")}`,
+              },
+            })),
+          ],
+        }, ...history],
+      });
+
+      let text = "";
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText?.(delta);
+        }
+      }
+
+      if (!text) {
+        throw new Error("Empty response from OpenAI API");
+      }
+      return text;
+    },
+  };
+}
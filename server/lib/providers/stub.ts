@@ -0,0 +1,63 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import type { AnalysisProvider, AnalysisRequest } from "./types";
+
+const DEFAULT_FIXTURES = [
+  {
+    result: "normal_variant",
+    confidence: 0.9,
+    explanation: "Stub analysis: mucosa appears pink and uniform with no visible lesions.",
+    severity: "low",
+    recommendations: "Continue routine dental check-ups.",
+  },
+  {
+    result: "leukoplakia",
+    confidence: 0.8,
+    explanation: "Stub analysis: a white patch with irregular borders is visible on the lateral tongue.",
+    severity: "high",
+    recommendations: "See a dentist or oral medicine specialist within two weeks.",
+    regions: [
+      { type: "box", label: "White patch", confidence: 0.8, x: 0.55, y: 0.4, width: 0.2, height: 0.15 },
+    ],
+  },
+];
+
+const STREAM_CHUNK_SIZE = 16;
+
+function loadFixtures(): unknown[] {
+  const fixturePath = process.env.STUB_ANALYSIS_FIXTURES;
+  if (!fixturePath) return DEFAULT_FIXTURES;
+
+  const fixtures = JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+  if (!Array.isArray(fixtures) || fixtures.length === 0) {
+    throw new Error(`STUB_ANALYSIS_FIXTURES must point to a non-empty JSON array: ${fixturePath}`);
+  }
+  return fixtures;
+}
+
+// Offline provider: picks a fixture from a hash of the image bytes, so the
+// same image always produces the same result without any network access
+export function createStubProvider(): AnalysisProvider {
+  const fixtures = loadFixtures();
+
+  return {
+    name: "stub",
+    async analyze({ images }: AnalysisRequest, onText) {
+      const hash = createHash("sha256");
+      for (const image of images) {
+        hash.update(image.data);
+      }
+      const index = hash.digest().readUInt32BE(0) % fixtures.length;
+      const fixture = fixtures[index];
+      const text = typeof fixture === "string" ? fixture : JSON.stringify(fixture);
+
+      // Emit the reply in small chunks so streaming clients behave as with a real model
+      if (onText) {
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+          onText(text.slice(i, i + STREAM_CHUNK_SIZE));
+        }
+      }
+      return text;
+    },
+  };
+}
@@ -0,0 +1,25 @@
+export type ImageMediaType = "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+
+export interface AnalysisImage {
+  data: Buffer;
+  mediaType: ImageMediaType;
+}
+
+// Follow-up messages after the initial prompt, e.g. a repair request
+export interface ProviderTurn {
+  role: "assistant" | "user";
+  content: string;
+}
+
+export interface AnalysisRequest {
+  prompt: string;
+  images: AnalysisImage[];
+  history?: ProviderTurn[];
+}
+
+// A vision model that turns a prompt plus images into the model's raw text reply,
+// reporting text through onText as it is generated
+export interface AnalysisProvider {
+  readonly name: string;
+  analyze(request: AnalysisRequest, onText?: (delta: string) => void): Promise<string>;
+}
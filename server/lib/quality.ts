@@ -0,0 +1,135 @@
+import sharp from "sharp";
+import type { ImageDimensions } from "./preprocess";
+
+export type QualityIssueCode = "too_small" | "blurry" | "too_dark" | "too_bright" | "low_contrast" | "glare";
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  message: string;
+  guidance: string;
+}
+
+export interface QualityMetrics {
+  width: number;
+  height: number;
+  sharpness: number;
+  brightness: number;
+  contrast: number;
+  glareRatio: number;
+}
+
+export interface QualityAssessment {
+  passed: boolean;
+  metrics: QualityMetrics;
+  issues: QualityIssue[];
+}
+
+const thresholds = {
+  minDimension: Number(process.env.QUALITY_MIN_DIMENSION ?? 480),
+  minSharpness: Number(process.env.QUALITY_MIN_SHARPNESS ?? 60),
+  minBrightness: Number(process.env.QUALITY_MIN_BRIGHTNESS ?? 50),
+  maxBrightness: Number(process.env.QUALITY_MAX_BRIGHTNESS ?? 215),
+  minContrast: Number(process.env.QUALITY_MIN_CONTRAST ?? 20),
+  maxGlareRatio: Number(process.env.QUALITY_MAX_GLARE_RATIO ?? 0.05),
+};
+
+// Metrics are computed on a fixed-size greyscale copy so thresholds do not
+// depend on the capture resolution
+const ANALYSIS_SIZE = 512;
+const GLARE_LEVEL = 250;
+
+// Variance of the 4-neighbour Laplacian: low values mean few sharp edges
+function laplacianVariance(pixels: Buffer, width: number, height: number) {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = pixels[i - width] + pixels[i + width] + pixels[i - 1] + pixels[i + 1] - 4 * pixels[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+export async function assessImageQuality(
+  image: Buffer,
+  dimensions: ImageDimensions,
+): Promise<QualityAssessment> {
+  const { data, info } = await sharp(image)
+    .greyscale()
+    .resize({ width: ANALYSIS_SIZE, height: ANALYSIS_SIZE, fit: "inside" })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  let sum = 0;
+  let sumSquares = 0;
+  let glarePixels = 0;
+  for (const value of data) {
+    sum += value;
+    sumSquares += value * value;
+    if (value >= GLARE_LEVEL) glarePixels++;
+  }
+
+  const brightness = sum / data.length;
+  const metrics: QualityMetrics = {
+    width: dimensions.width,
+    height: dimensions.height,
+    sharpness: laplacianVariance(data, info.width, info.height),
+    brightness,
+    contrast: Math.sqrt(Math.max(0, sumSquares / data.length - brightness * brightness)),
+    glareRatio: glarePixels / data.length,
+  };
+
+  const issues: QualityIssue[] = [];
+  if (Math.min(metrics.width, metrics.height) < thresholds.minDimension) {
+    issues.push({
+      code: "too_small",
+      message: `Image resolution is too low (${metrics.width}×${metrics.height})`,
+      guidance: "Move closer to the area or use the camera's full resolution instead of a cropped or thumbnail image.",
+    });
+  }
+  if (metrics.sharpness < thresholds.minSharpness) {
+    issues.push({
+      code: "blurry",
+      message: "Image is out of focus",
+      guidance: "Hold the camera steady, tap the screen to focus on the area and retake the photo.",
+    });
+  }
+  if (metrics.brightness < thresholds.minBrightness) {
+    issues.push({
+      code: "too_dark",
+      message: "Image is too dark",
+      guidance: "Use a torch or better lighting aimed into the mouth and avoid shadows from the lips or hand.",
+    });
+  } else if (metrics.brightness > thresholds.maxBrightness) {
+    issues.push({
+      code: "too_bright",
+      message: "Image is overexposed",
+      guidance: "Reduce the light or move the light source further away so the tissue detail is visible.",
+    });
+  }
+  if (metrics.contrast < thresholds.minContrast) {
+    issues.push({
+      code: "low_contrast",
+      message: "Image has too little contrast",
+      guidance: "Make sure the area fills most of the frame and is evenly lit.",
+    });
+  }
+  if (metrics.glareRatio > thresholds.maxGlareRatio) {
+    issues.push({
+      code: "glare",
+      message: "Strong reflections hide part of the image",
+      guidance: "Gently dry the area with gauze and angle the light or camera to avoid reflections from saliva.",
+    });
+  }
+
+  return { passed: issues.length === 0, metrics, issues };
+}
@@ -0,0 +1,185 @@
+import * as fs from "fs";
+import { z } from "zod";
+import type { Recommendation } from "@db/schema";
+import { REFERRAL_URGENCIES, RESULT_CATEGORY_IDS, SEVERITIES } from "@db/categories";
+
+const WILDCARD = "*";
+
+const ruleSchema = z.object({
+  result: z.enum([...RESULT_CATEGORY_IDS, WILDCARD]),
+  severity: z.enum([...SEVERITIES, WILDCARD]),
+  action: z.enum(["self_monitor", "see_dentist", "specialist_referral"]),
+  urgency: z.enum(REFERRAL_URGENCIES.map(urgency => urgency.id) as [string, ...string[]]),
+  withinDays: z.number().int().positive(),
+  title: z.string().min(1),
+  reason: z.string().min(1),
+});
+
+export type RecommendationRule = z.infer<typeof ruleSchema>;
+
+// Rules are matched on result category and severity; "*" matches anything and
+// the most specific matching rule wins. For self-monitoring, withinDays is how
+// often to re-check, otherwise the deadline for the appointment.
+const DEFAULT_RULES: RecommendationRule[] = [
+  {
+    result: "normal_variant",
+    severity: WILDCARD,
+    action: "self_monitor",
+    urgency: "none",
+    withinDays: 30,
+    title: "Check your mouth once a month",
+    reason: "Nothing needing attention was found. A monthly self-examination and regular dental check-ups catch new changes early.",
+  },
+  {
+    result: "benign_inflammatory",
+    severity: "low",
+    action: "self_monitor",
+    urgency: "routine",
+    withinDays: 14,
+    title: "Re-check this area in two weeks",
+    reason: "Inflammatory changes with a benign cause usually heal within two weeks. Anything still present after that should be seen by a dentist.",
+  },
+  {
+    result: "benign_inflammatory",
+    severity: "medium",
+    action: "see_dentist",
+    urgency: "routine",
+    withinDays: 30,
+    title: "See a dentist within a month",
+    reason: "The change looks benign but is pronounced enough that a dentist should confirm its cause and treat it.",
+  },
+  {
+    result: "leukoplakia",
+    severity: "medium",
+    action: "see_dentist",
+    urgency: "soon",
+    withinDays: 21,
+    title: "See a dentist within three weeks",
+    reason: "Leukoplakia is a potentially malignant disorder. A dentist should examine it and decide whether a biopsy is needed.",
+  },
+  {
+    result: "leukoplakia",
+    severity: "high",
+    action: "specialist_referral",
+    urgency: "soon",
+    withinDays: 14,
+    title: "See an oral medicine specialist within two weeks",
+    reason: "Leukoplakia with worrying features carries a higher risk of malignant change and usually needs a biopsy.",
+  },
+  {
+    result: "erythroplakia",
+    severity: WILDCARD,
+    action: "specialist_referral",
+    urgency: "urgent",
+    withinDays: 14,
+    title: "Urgent referral to an oral medicine specialist",
+    reason: "Erythroplakia has the highest rate of malignant change of the oral potentially malignant disorders and should be biopsied promptly.",
+  },
+  {
+    result: "oral_submucous_fibrosis",
+    severity: "medium",
+    action: "see_dentist",
+    urgency: "soon",
+    withinDays: 21,
+    title: "See a dentist within three weeks",
+    reason: "Oral submucous fibrosis is potentially malignant and progresses while areca nut use continues. Stopping betel quid is the most important step.",
+  },
+  {
+    result: "oral_submucous_fibrosis",
+    severity: "high",
+    action: "specialist_referral",
+    urgency: "soon",
+    withinDays: 14,
+    title: "See an oral medicine specialist within two weeks",
+    reason: "Advanced oral submucous fibrosis needs specialist management and monitoring for malignant change.",
+  },
+  {
+    result: "ulcer_uncertain_cause",
+    severity: "medium",
+    action: "see_dentist",
+    urgency: "soon",
+    withinDays: 14,
+    title: "See a dentist if the ulcer has not healed in two weeks",
+    reason: "Most ulcers heal within two weeks. One without an obvious cause that persists longer must be examined to rule out cancer.",
+  },
+  {
+    result: "ulcer_uncertain_cause",
+    severity: "high",
+    action: "specialist_referral",
+    urgency: "urgent",
+    withinDays: 14,
+    title: "Urgent referral to an oral medicine specialist",
+    reason: "An ulcer with worrying features and no obvious cause needs prompt specialist assessment.",
+  },
+  {
+    result: "suspicious_for_malignancy",
+    severity: WILDCARD,
+    action: "specialist_referral",
+    urgency: "urgent",
+    withinDays: 14,
+    title: "Urgent referral for suspected oral cancer",
+    reason: "The image shows features of oral cancer. Early diagnosis greatly improves outcomes, so the lesion should be assessed on an urgent cancer pathway.",
+  },
+  {
+    result: "inconclusive",
+    severity: "low",
+    action: "self_monitor",
+    urgency: "routine",
+    withinDays: 7,
+    title: "Take a clearer photo within a week",
+    reason: "The image could not be assessed reliably. A sharp, well-lit photo of the area allows a proper assessment.",
+  },
+  {
+    result: "inconclusive",
+    severity: WILDCARD,
+    action: "see_dentist",
+    urgency: "routine",
+    withinDays: 30,
+    title: "Have a dentist look at this area",
+    reason: "Something may be present but the image could not be assessed reliably, so an in-person examination is the safest option.",
+  },
+  {
+    result: WILDCARD,
+    severity: WILDCARD,
+    action: "see_dentist",
+    urgency: "routine",
+    withinDays: 30,
+    title: "See a dentist within a month",
+    reason: "No specific rule applies to this result, so a routine examination is recommended.",
+  },
+];
+
+function loadRules(): RecommendationRule[] {
+  const rulesPath = process.env.RECOMMENDATION_RULES;
+  if (!rulesPath) return DEFAULT_RULES;
+
+  const rules = z.array(ruleSchema).min(1).parse(JSON.parse(fs.readFileSync(rulesPath, "utf8")));
+  if (!rules.some(rule => rule.result === WILDCARD && rule.severity === WILDCARD)) {
+    throw new Error(`RECOMMENDATION_RULES must include a "*"/"*" fallback rule: ${rulesPath}`);
+  }
+  return rules;
+}
+
+let rules: RecommendationRule[] | undefined;
+
+// Rules come from the JSON file at RECOMMENDATION_RULES, or the defaults above
+export function getRecommendationRules() {
+  if (!rules) rules = loadRules();
+  return rules;
+}
+
+function specificity(rule: RecommendationRule) {
+  return (rule.result === WILDCARD ? 0 : 2) + (rule.severity === WILDCARD ? 0 : 1);
+}
+
+export function recommendFor(result: string, severity: string | null): Recommendation {
+  const rule = getRecommendationRules()
+    .filter(rule =>
+      (rule.result === WILDCARD || rule.result === result) &&
+      (rule.severity === WILDCARD || rule.severity === severity)
+    )
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+
+  const { action, urgency, withinDays, title, reason } = rule;
+  return { action, urgency, withinDays, title, reason };
+}
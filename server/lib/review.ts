@@ -0,0 +1,134 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@db";
+import {
+  analyses,
+  insertNotificationSchema,
+  insertReviewDecisionSchema,
+  insertReviewTransitionSchema,
+  notifications,
+  reviewDecisions,
+  reviewTransitions,
+  type SelectAnalysis,
+  type SelectUser,
+} from "@db/schema";
+import {
+  canTransition,
+  REVIEW_DECISIONS,
+  REVIEW_TRANSITIONS,
+  type ReviewDecision,
+  type ReviewRole,
+  type ReviewStatus,
+} from "@db/review";
+import { isRole } from "@db/roles";
+import { canViewAnalysis, type AnalysisScope } from "./permissions";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A transition the state machine rejected, reported to the client as-is
+export class ReviewTransitionError extends Error {
+  constructor(message: string, public code: "INVALID_TRANSITION" | "TRANSITION_NOT_ALLOWED" | "TRANSITION_CONFLICT") {
+    super(message);
+    this.name = "ReviewTransitionError";
+  }
+}
+
+// The role a user acts in on a given analysis, or null if they cannot see it
+export function reviewRole(user: SelectUser, analysis: SelectAnalysis, scope: AnalysisScope): ReviewRole | null {
+  return canViewAnalysis(user, analysis, scope) && isRole(user.role) ? user.role : null;
+}
+
+interface TransitionActor {
+  user: SelectUser | null;
+  role: ReviewRole;
+}
+
+// Move an analysis to a new review status if its current status and the actor's
+// role allow it. The update only applies while the status is still the one the
+// check was made against, so concurrent reviewers cannot both succeed.
+export async function transitionReview(
+  analysis: SelectAnalysis,
+  to: ReviewStatus,
+  actor: TransitionActor,
+  note?: string,
+  tx?: Transaction,
+) {
+  const from = analysis.reviewStatus;
+  if (!REVIEW_TRANSITIONS.some(transition => transition.from === from && transition.to === to)) {
+    throw new ReviewTransitionError(`An analysis cannot move from ${from} to ${to}`, "INVALID_TRANSITION");
+  }
+  if (!canTransition(from, to, actor.role)) {
+    throw new ReviewTransitionError(
+      `A ${actor.role} cannot move an analysis from ${from} to ${to}`,
+      "TRANSITION_NOT_ALLOWED"
+    );
+  }
+
+  const apply = async (tx: Transaction) => {
+    const now = new Date();
+    const [updated] = await tx.update(analyses)
+      .set({ reviewStatus: to, reviewStatusChangedAt: now })
+      .where(and(eq(analyses.id, analysis.id), eq(analyses.reviewStatus, from)))
+      .returning();
+    if (!updated) {
+      throw new ReviewTransitionError("The analysis was changed by someone else, reload and try again", "TRANSITION_CONFLICT");
+    }
+
+    await tx.insert(reviewTransitions).values(insertReviewTransitionSchema.parse({
+      analysisId: analysis.id,
+      fromStatus: from,
+      toStatus: to,
+      actorId: actor.user?.firebaseId,
+      actorRole: actor.role,
+      note,
+      createdAt: now,
+    }));
+    return updated;
+  };
+
+  return tx ? apply(tx) : db.transaction(apply);
+}
+
+export interface DecisionInput {
+  decision: ReviewDecision;
+  // Required for overrides; confirmations keep the model's category
+  result?: string;
+  severity?: string;
+  note?: string;
+}
+
+// Record a clinician's decision and move the analysis to the matching status.
+// An analysis nobody has picked up yet is taken under review on the way.
+export async function recordDecision(analysis: SelectAnalysis, input: DecisionInput, reviewer: TransitionActor) {
+  const target = REVIEW_DECISIONS.find(decision => decision.id === input.decision)!.status;
+
+  return db.transaction(async (tx) => {
+    let current = analysis;
+    if (current.reviewStatus === "ai_complete") {
+      current = await transitionReview(current, "under_review", reviewer, undefined, tx);
+    }
+    const updated = await transitionReview(current, target, reviewer, input.note, tx);
+
+    const [decision] = await tx.insert(reviewDecisions).values(insertReviewDecisionSchema.parse({
+      analysisId: analysis.id,
+      reviewerId: reviewer.user!.firebaseId,
+      decision: input.decision,
+      result: input.decision === "override" ? input.result : input.decision === "confirm" ? analysis.result : null,
+      severity: input.decision === "override" ? input.severity : input.decision === "confirm" ? analysis.severity : null,
+      note: input.note,
+    })).returning();
+
+    if (input.decision === "retake") {
+      await tx.insert(notifications).values(insertNotificationSchema.parse({
+        userId: analysis.userId,
+        analysisId: analysis.id,
+        type: "retake_requested",
+        title: "Please retake your photo",
+        body: input.note
+          ? `A clinician could not assess your image: ${input.note}`
+          : "A clinician could not assess your image. Please take a new, well-lit photo of the same area.",
+      }));
+    }
+
+    return { analysis: updated, decision };
+  });
+}
@@ -0,0 +1,56 @@
+import { eq } from "drizzle-orm";
+import { db } from "@db";
+import {
+  analyses,
+  analysisRevisions,
+  insertAnalysisRevisionSchema,
+  type SelectAnalysis,
+  type SelectUser,
+} from "@db/schema";
+
+// Fields a user may change on an analysis after it has been created
+export interface AnalysisEdits {
+  patientNotes?: string | null;
+  followUpDate?: Date | null;
+  site?: string | null;
+}
+
+type FieldChange = { from: unknown; to: unknown };
+
+function sameValue(a: unknown, b: unknown) {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return a === b;
+}
+
+// Apply the edits and record what actually changed as a new revision, together,
+// so the history can never miss an edit
+export async function editAnalysis(analysis: SelectAnalysis, edits: AnalysisEdits, user: SelectUser) {
+  const changes: Record<string, FieldChange> = {};
+  for (const [field, value] of Object.entries(edits) as [keyof AnalysisEdits, unknown][]) {
+    if (value === undefined || sameValue(analysis[field], value)) continue;
+    changes[field] = { from: analysis[field], to: value };
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return analysis;
+  }
+
+  return db.transaction(async (tx) => {
+    const [updated] = await tx.update(analyses)
+      .set({
+        ...edits,
+        // A moved follow-up gets a fresh reminder
+        ...(changes.followUpDate ? { followUpReminderSentAt: null } : {}),
+      })
+      .where(eq(analyses.id, analysis.id))
+      .returning();
+
+    await tx.insert(analysisRevisions).values(insertAnalysisRevisionSchema.parse({
+      analysisId: analysis.id,
+      changedBy: user.firebaseId,
+      changes,
+    }));
+
+    return updated;
+  });
+}
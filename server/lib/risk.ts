@@ -0,0 +1,83 @@
+import type { SelectRiskAssessment } from "@db/schema";
+import {
+  ALCOHOL_OPTIONS,
+  BETEL_QUID_OPTIONS,
+  HPV_OPTIONS,
+  TOBACCO_OPTIONS,
+  optionLabel,
+} from "@db/risk-factors";
+import { referralUrgency } from "@db/categories";
+
+// Composite risk score
+//
+// Points are added for the image result and for each questionnaire answer:
+//
+//   Image         by severity low 3, medium 6, high 9; a normal variant 0
+//   Tobacco       current 3, former 1
+//   Betel quid    current 3, former 1 (areca nut is carcinogenic on its own)
+//   Alcohol       heavy 2, moderate 1
+//   Tobacco and heavy alcohol together  +1 (the two act synergistically)
+//   Age           60 and over 2, 40-59 1
+//   HPV           positive 2
+//
+// The total is scaled to 0-100 against the maximum of 22 points and banded as
+// low (< 25), moderate (25-49) or high (50+). The level is never below what the
+// image alone calls for: a result needing urgent referral is high and one to see
+// a clinician soon at least moderate, whatever the questionnaire says or whether
+// there is one. The weights are a screening heuristic reflecting the relative
+// strength of the known risk factors, not a validated clinical model.
+
+export type RiskLevel = "low" | "moderate" | "high";
+
+const IMAGE_POINTS: Record<string, number> = { low: 3, medium: 6, high: 9 };
+const USE_POINTS: Record<string, number> = { current: 3, former: 1 };
+const ALCOHOL_POINTS: Record<string, number> = { heavy: 2, moderate: 1 };
+const MAX_POINTS = 22;
+const RANK: RiskLevel[] = ["low", "moderate", "high"];
+const URGENCY_FLOOR: Record<string, RiskLevel> = { urgent: "high", soon: "moderate" };
+
+function imagePoints(result: string | null, severity: string | null) {
+  if (!result || result === "normal_variant" || !severity) return 0;
+  return IMAGE_POINTS[severity] ?? 0;
+}
+
+function riskFactorPoints(factors: SelectRiskAssessment) {
+  let points = 0;
+  points += USE_POINTS[factors.tobacco] ?? 0;
+  points += USE_POINTS[factors.betelQuid] ?? 0;
+  points += ALCOHOL_POINTS[factors.alcohol] ?? 0;
+  if (factors.tobacco === "current" && factors.alcohol === "heavy") points += 1;
+  if (factors.age >= 60) points += 2;
+  else if (factors.age >= 40) points += 1;
+  if (factors.hpv === "positive") points += 2;
+  return points;
+}
+
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 50) return "high";
+  if (score >= 25) return "moderate";
+  return "low";
+}
+
+export function compositeRiskScore(
+  result: string | null,
+  severity: string | null,
+  factors: SelectRiskAssessment | null,
+) {
+  const points = imagePoints(result, severity) + (factors ? riskFactorPoints(factors) : 0);
+  const score = Math.round((points / MAX_POINTS) * 100);
+  const floor = URGENCY_FLOOR[referralUrgency(result) ?? "none"] ?? "low";
+  const level = RANK[Math.max(RANK.indexOf(riskLevel(score)), RANK.indexOf(floor))];
+  return { score, level };
+}
+
+// Plain-language summary of the answers for the analysis prompt
+export function describeRiskFactors(factors: SelectRiskAssessment) {
+  return [
+    `Age: ${factors.age}`,
+    `Tobacco: ${optionLabel(TOBACCO_OPTIONS, factors.tobacco).toLowerCase()}`,
+    `Betel quid / areca nut: ${optionLabel(BETEL_QUID_OPTIONS, factors.betelQuid).toLowerCase()}`,
+    `Alcohol: ${optionLabel(ALCOHOL_OPTIONS, factors.alcohol).toLowerCase()}`,
+    `HPV status: ${optionLabel(HPV_OPTIONS, factors.hpv).toLowerCase()}`,
+  ].join("; ");
+}
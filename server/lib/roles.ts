@@ -0,0 +1,19 @@
+import { eq } from "drizzle-orm";
+import { db } from "@db";
+import { users } from "@db/schema";
+import type { Role } from "@db/roles";
+import { auth } from "./firebase";
+
+// Give a user a new role: the Firebase custom claim is the source of truth and
+// the users row is updated straight away so the change applies before the
+// user's next token refresh picks up the claim
+export async function assignRole(firebaseId: string, role: Role) {
+  const account = await auth.getUser(firebaseId);
+  await auth.setCustomUserClaims(firebaseId, { ...account.customClaims, role });
+
+  const [user] = await db.update(users)
+    .set({ role, roleUpdatedAt: new Date() })
+    .where(eq(users.firebaseId, firebaseId))
+    .returning();
+  return user;
+}
@@ -0,0 +1,11 @@
+import type { SelectAnalysis } from "@db/schema";
+import { signImageUrl } from "./storage";
+
+// Shape an analysis row for the client: numeric confidence and a signed image URL
+export function serializeAnalysis({ uploadKey, ...analysis }: SelectAnalysis) {
+  return {
+    ...analysis,
+    confidence: analysis.confidence === null ? null : Number(analysis.confidence),
+    imageUrl: analysis.imageKey ? signImageUrl(analysis.imageKey) : null,
+  };
+}
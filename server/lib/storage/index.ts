@@ -0,0 +1,93 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+import type { StorageBackend } from "./types";
+
+export type { StorageBackend, StoredObject } from "./types";
+
+const factories: Record<string, () => StorageBackend> = {
+  local: createLocalStorage,
+  s3: createS3Storage,
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+const KEY_PATTERN = /^[a-f0-9]{64}\.(jpg|png|gif|webp)$/;
+
+let storage: StorageBackend | undefined;
+
+// The backend is chosen once from STORAGE_BACKEND (defaults to local)
+export function getStorage(): StorageBackend {
+  if (storage) return storage;
+
+  const name = process.env.STORAGE_BACKEND || "local";
+  const factory = factories[name];
+  if (!factory) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND "${name}". Supported backends: ${Object.keys(factories).join(", ")}`
+    );
+  }
+
+  storage = factory();
+  console.log(`Using ${storage.name} image storage`);
+  return storage;
+}
+
+export function isValidImageKey(key: string) {
+  return KEY_PATTERN.test(key);
+}
+
+// Identical uploads share one stored object
+export async function storeImage(data: Buffer, contentType: string) {
+  const extension = EXTENSIONS[contentType];
+  if (!extension) {
+    throw new Error(`Unsupported image type: ${contentType}`);
+  }
+
+  const key = `${createHash("sha256").update(data).digest("hex")}.${extension}`;
+  const backend = getStorage();
+  if (!(await backend.exists(key))) {
+    await backend.put(key, data, contentType);
+  }
+  return key;
+}
+
+// Raw uploads are kept only until the analysis worker has processed them
+export async function storeUpload(data: Buffer, contentType: string) {
+  const key = `uploads/${randomUUID()}`;
+  await getStorage().put(key, data, contentType);
+  return key;
+}
+
+const urlTtlSeconds = Number(process.env.IMAGE_URL_TTL_SECONDS ?? 15 * 60);
+
+// Without a configured secret, signed URLs stop working when the server restarts
+const urlSecret = process.env.IMAGE_URL_SECRET || randomBytes(32).toString("hex");
+if (!process.env.IMAGE_URL_SECRET) {
+  console.warn("IMAGE_URL_SECRET is not set; using a random secret for signed image URLs");
+}
+
+function sign(key: string, expires: number) {
+  return createHmac("sha256", urlSecret).update(`${key}:${expires}`).digest("base64url");
+}
+
+export function signImageUrl(key: string, now = Date.now()) {
+  const expires = Math.floor(now / 1000) + urlTtlSeconds;
+  return `/api/images/${key}?expires=${expires}&signature=${sign(key, expires)}`;
+}
+
+export function verifyImageSignature(key: string, expires: unknown, signature: unknown) {
+  if (typeof expires !== "string" || typeof signature !== "string") return false;
+
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(sign(key, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,54 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { StorageBackend } from "./types";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+function isNotFound(error: unknown) {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+export function createLocalStorage(): StorageBackend {
+  const root = path.resolve(process.env.STORAGE_DIR || "storage");
+
+  // Spread files over subdirectories so no single directory grows too large
+  const filePath = (key: string) => {
+    const name = path.basename(key);
+    return path.join(root, path.dirname(key), name.slice(0, 2), name);
+  };
+
+  return {
+    name: "local",
+    async put(key, data) {
+      const target = filePath(key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, data);
+    },
+    async get(key) {
+      try {
+        const data = await fs.readFile(filePath(key));
+        const contentType = CONTENT_TYPES[path.extname(key)] ?? "application/octet-stream";
+        return { data, contentType };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+    async exists(key) {
+      try {
+        await fs.access(filePath(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async delete(key) {
+      await fs.rm(filePath(key), { force: true });
+    },
+  };
+}
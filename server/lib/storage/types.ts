@@ -0,0 +1,13 @@
+export interface StoredObject {
+  data: Buffer;
+  contentType: string;
+}
+
+// A blob store for uploaded images, addressed by content-derived keys
+export interface StorageBackend {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,64 @@
+import { and, eq, isNotNull, lt } from "drizzle-orm";
+import { db } from "@db";
+import { analyses } from "@db/schema";
+import { getStorage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a deleted analysis stays restorable before it is purged for good
+export const trashRetentionDays = Number(process.env.TRASH_RETENTION_DAYS ?? 30);
+
+const purgeIntervalMs = Number(process.env.TRASH_PURGE_INTERVAL_MS ?? 60 * 60 * 1000);
+
+export function trashCutoff(now = new Date()) {
+  return new Date(now.getTime() - trashRetentionDays * DAY_MS);
+}
+
+export async function purgeExpiredAnalyses() {
+  const purged = await db.delete(analyses)
+    .where(and(
+      isNotNull(analyses.deletedAt),
+      lt(analyses.deletedAt, trashCutoff())
+    ))
+    .returning({
+      id: analyses.id,
+      imageKey: analyses.imageKey,
+      uploadKey: analyses.uploadKey,
+    });
+
+  if (purged.length > 0) {
+    console.log(`Purged ${purged.length} expired analyses from trash`);
+  }
+
+  // Images are content-addressed, so only remove those no other analysis uses
+  const imageKeys = new Set(purged.flatMap(row => row.imageKey ? [row.imageKey] : []));
+  for (const key of Array.from(imageKeys)) {
+    const stillUsed = await db.query.analyses.findFirst({
+      columns: { id: true },
+      where: eq(analyses.imageKey, key),
+    });
+    if (!stillUsed) {
+      await getStorage().delete(key);
+    }
+  }
+
+  // Uploads of analyses deleted before the worker got to them
+  for (const { uploadKey } of purged) {
+    if (uploadKey) await getStorage().delete(uploadKey);
+  }
+
+  return purged.length;
+}
+
+export function startTrashPurgeJob() {
+  const run = () => {
+    purgeExpiredAnalyses().catch(error => {
+      console.error("Trash purge failed:", error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, purgeIntervalMs);
+  timer.unref();
+  return timer;
+}
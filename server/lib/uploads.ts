@@ -0,0 +1,67 @@
+import type { Request, Response, NextFunction } from "express";
+import type { UploadedFile } from "express-fileupload";
+import * as fs from "fs";
+import { promisify } from "util";
+
+const readFile = promisify(fs.readFile);
+const unlink = promisify(fs.unlink);
+
+export const SUPPORTED_IMAGE_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+  'image/heic', 'image/heif', 'image/tiff', 'image/bmp'
+];
+
+// Matches the limit of the upload middleware in server/index.ts
+const MAX_IMAGE_SIZE = 50 * 1024 * 1024;
+
+// express-fileupload gives a single file or an array depending on how many were sent
+export function asFileList(files: UploadedFile | UploadedFile[] | undefined) {
+  if (!files) return [];
+  return Array.isArray(files) ? files : [files];
+}
+
+// Returns a message describing why the upload can't be used, or null if it can
+export function validateImageUpload(image: UploadedFile) {
+  if (!SUPPORTED_IMAGE_TYPES.includes(image.mimetype)) {
+    console.log("Invalid file type:", image.mimetype);
+    return `Invalid file type. Supported types: ${SUPPORTED_IMAGE_TYPES.join(", ")}`;
+  }
+
+  if (image.size > MAX_IMAGE_SIZE) {
+    console.log("File too large:", image.size);
+    return "File too large. Maximum size is 50MB";
+  }
+
+  return null;
+}
+
+export async function readUploadedImage(image: UploadedFile) {
+  if (image.tempFilePath) {
+    return readFile(image.tempFilePath);
+  }
+  if (Buffer.isBuffer(image.data)) {
+    return image.data;
+  }
+  throw new Error("Invalid image data format");
+}
+
+// express-fileupload leaves its temp files in /tmp/ for us to remove
+async function removeTempFiles(images: UploadedFile[]) {
+  for (const image of images) {
+    if (!image.tempFilePath) continue;
+    await unlink(image.tempFilePath).catch(error => {
+      console.error("Failed to remove temp upload:", error);
+    });
+  }
+}
+
+// Remove a request's temp files once its response is done, however it ended:
+// handled, refused before reaching a handler, or sent to a route that takes no
+// files. Mounted right after the upload middleware.
+export function cleanUpTempFiles(req: Request, res: Response, next: NextFunction) {
+  res.on("close", () => {
+    const files = Object.values(req.files ?? {}).flatMap(asFileList);
+    removeTempFiles(files);
+  });
+  next();
+}
@@ -1,152 +1,1531 @@
 import { Router } from "express";
-import { Request, Response } from "express";
-import { Anthropic } from "@anthropic-ai/sdk";
+import { Request, Response, NextFunction } from "express";
 import { UploadedFile } from "express-fileupload";
 import { createServer, type Server } from "http";
 import type { Express } from "express";
-import * as fs from 'fs';
-import { promisify } from 'util';
+import { z } from "zod";
+import { and, asc, desc, eq, getTableColumns, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, ne, or, sql, type SQL } from "drizzle-orm";
+import { db } from "@db";
+import { ANATOMICAL_SITE_IDS } from "@db/sites";
+import { riskFactorsSchema } from "@db/risk-factors";
+import { RESULT_CATEGORY_IDS, SEVERITIES } from "@db/categories";
+import { DECISION_STATUSES, REVIEW_STATUS_IDS } from "@db/review";
+import { ROLE_IDS } from "@db/roles";
+import { patientSchema, type PatientDetails } from "@db/patients";
+import { AUDIT_ACTION_IDS, AUDIT_RESOURCE_IDS } from "@db/audit";
+import {
+  analyses,
+  exams,
+  lesions,
+  notifications,
+  analysisRevisions,
+  reviewTransitions,
+  reviewDecisions,
+  patients,
+  clinics,
+  auditLog,
+  users,
+  insertAnalysisSchema,
+  insertExamSchema,
+  insertLesionSchema,
+  insertRiskAssessmentSchema,
+  insertPatientSchema,
+  insertClinicSchema,
+  riskAssessments,
+  type SelectAnalysis,
+  type SelectLesion,
+  type SelectPatient,
+  type SelectUser,
+} from "@db/schema";
+import { trashCutoff, trashRetentionDays } from "./lib/trash";
+import { requireAuth } from "./lib/auth";
+import { ANALYSIS_SCOPE, can, canAccessPatient, canModifyAnalysis, canViewAnalysis, requirePermission } from "./lib/permissions";
+import { assignRole } from "./lib/roles";
+import { auditTrail, verifyAuditChain } from "./lib/audit";
+import { notifyAnalysisWorker, type AnalysisStage } from "./lib/jobs";
+import { getStorage, isValidImageKey, storeUpload, verifyImageSignature } from "./lib/storage";
+import { serializeAnalysis } from "./lib/serialize";
+import { serializeExam, updateExamAggregate } from "./lib/exams";
+import { serializeLesion } from "./lib/lesions";
+import { editAnalysis } from "./lib/revisions";
+import { recordDecision, reviewRole, ReviewTransitionError, transitionReview } from "./lib/review";
+import { asFileList, readUploadedImage, validateImageUpload } from "./lib/uploads";
+import { subscribeToAnalysis, type AnalysisEvent } from "./lib/events";
 
 const router = Router();
-const readFile = promisify(fs.readFile);
+const idSchema = z.string().uuid();
+const siteSchema = z.enum(ANATOMICAL_SITE_IDS);
 
-if (!process.env.ANTHROPIC_API_KEY) {
-  throw new Error("ANTHROPIC_API_KEY environment variable is required");
+// The questionnaire answers an upload is analyzed against
+async function currentRiskAssessmentId(userId: string) {
+  const latest = await db.query.riskAssessments.findFirst({
+    where: eq(riskAssessments.userId, userId),
+    orderBy: [desc(riskAssessments.createdAt)],
+  });
+  return latest?.id;
 }
 
-// Initialize Anthropic client
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+// The patient an upload is for, if the request names one the user can access.
+// Returns null for a missing or inaccessible patient.
+async function findUploadPatient(user: SelectUser, patientId: unknown) {
+  const id = idSchema.safeParse(patientId);
+  if (!id.success) return null;
+
+  const patient = await db.query.patients.findFirst({ where: eq(patients.id, id.data) });
+  return patient && canAccessPatient(user, patient) ? patient : null;
+}
 
-// Upload and analyze image
+// Upload an image and queue it for analysis
 router.post("/api/analysis", async (req: Request, res: Response) => {
+  const image = req.files?.image as UploadedFile | undefined;
+
   try {
     console.log("Received analysis request");
     
-    if (!req.files || !req.files.image) {
+    if (!image) {
       console.log("No image file received");
       return res.status(400).json({ error: "No image file received" });
     }
 
-    const image = req.files.image as UploadedFile;
+    const userId = req.user!.firebaseId;
+
     console.log("Received file:", {
       name: image.name,
       type: image.mimetype,
       size: image.size
     });
 
-    // Validate file type
-    const validTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-    if (!validTypes.includes(image.mimetype)) {
-      console.log("Invalid file type:", image.mimetype);
-      return res.status(400).json({ 
-        error: `Invalid file type. Supported types: ${validTypes.join(", ")}` 
-      });
+    const invalid = validateImageUpload(image);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const site = siteSchema.optional().safeParse(req.body.site || undefined);
+    if (!site.success) {
+      return res.status(400).json({ error: "Invalid anatomical site" });
+    }
+
+    let patient: SelectPatient | undefined;
+    if (req.body.patientId) {
+      patient = await findUploadPatient(req.user!, req.body.patientId) ?? undefined;
+      if (!patient) {
+        return res.status(400).json({ error: "Patient not found" });
+      }
+    }
+
+    // A new capture of a tracked lesion is compared against its previous one, so
+    // it must be of the same patient's lesion
+    let lesion: SelectLesion | undefined;
+    if (req.body.lesionId) {
+      const lesionId = idSchema.safeParse(req.body.lesionId);
+      lesion = lesionId.success
+        ? await db.query.lesions.findFirst({ where: eq(lesions.id, lesionId.data) })
+        : undefined;
+      if (!lesion || lesion.userId !== userId) {
+        return res.status(400).json({ error: "Lesion not found" });
+      }
+      if (lesion.patientId !== (patient?.id ?? null)) {
+        return res.status(400).json({ error: "The lesion belongs to a different patient" });
+      }
+    }
+
+    const imageBuffer = await readUploadedImage(image);
+
+    // The analysis itself runs in the background worker; the client polls for the result
+    const uploadKey = await storeUpload(imageBuffer, image.mimetype);
+    const parsed = insertAnalysisSchema.safeParse({
+      userId,
+      patientId: patient?.id,
+      uploadKey,
+      lesionId: lesion?.id,
+      site: site.data ?? lesion?.site,
+      // The uploader's own questionnaire says nothing about someone else's risk
+      riskAssessmentId: patient ? undefined : await currentRiskAssessmentId(userId),
+    });
+    if (!parsed.success) {
+      console.log("Analysis failed validation:", parsed.error.flatten());
+      throw new Error("Analysis could not be queued");
     }
 
-    // Validate file size (max 5MB)
-    const maxSize = 5 * 1024 * 1024;
-    if (image.size > maxSize) {
-      console.log("File too large:", image.size);
+    const [queued] = await db.insert(analyses).values(parsed.data).returning();
+    console.log("Analysis queued:", queued.id);
+    notifyAnalysisWorker();
+
+    res.status(202).json({
+      id: queued.id,
+      status: queued.status,
+      stage: queued.stage
+    });
+  } catch (error) {
+    console.error('Analysis error:', error);
+    
+    if (error instanceof Error) {
       return res.status(400).json({ 
-        error: "File too large. Maximum size is 5MB" 
+        error: error.message || "Failed to process image"
       });
     }
+    
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+const MAX_EXAM_IMAGES = Number(process.env.EXAM_MAX_IMAGES ?? 12);
+
+// Upload the images of a multi-site exam, in order, and queue each for analysis
+router.post("/api/exams", async (req: Request, res: Response) => {
+  const images = asFileList(req.files?.images);
+
+  try {
+    console.log("Received exam request with", images.length, "images");
+
+    if (images.length === 0) {
+      return res.status(400).json({ error: "No image files received" });
+    }
+    if (images.length > MAX_EXAM_IMAGES) {
+      return res.status(400).json({ error: `An exam can include at most ${MAX_EXAM_IMAGES} images` });
+    }
 
-    // Convert image to base64
-    let base64Image: string;
+    for (let index = 0; index < images.length; index++) {
+      const invalid = validateImageUpload(images[index]);
+      if (invalid) {
+        return res.status(400).json({ error: `Image ${index + 1}: ${invalid}` });
+      }
+    }
+
+    // Sites arrive as a JSON array aligned with the images; null for untagged ones
+    let sites: (string | null)[];
     try {
-      if (image.tempFilePath) {
-        const imageBuffer = await readFile(image.tempFilePath);
-        base64Image = imageBuffer.toString('base64');
-      } else if (Buffer.isBuffer(image.data)) {
-        base64Image = image.data.toString('base64');
-      } else {
-        throw new Error("Invalid image data format");
+      sites = z.array(siteSchema.nullable())
+        .length(images.length)
+        .parse(req.body.sites ? JSON.parse(req.body.sites) : images.map(() => null));
+    } catch {
+      return res.status(400).json({ error: "Invalid anatomical sites" });
+    }
+
+    let patient: SelectPatient | undefined;
+    if (req.body.patientId) {
+      patient = await findUploadPatient(req.user!, req.body.patientId) ?? undefined;
+      if (!patient) {
+        return res.status(400).json({ error: "Patient not found" });
       }
+    }
 
-      console.log("Image converted to base64, length:", base64Image.length);
-
-      // the newest Anthropic model is "claude-3-5-sonnet-20241022" which was released October 22, 2024
-      const response = await anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 1024,
-        messages: [{
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: "Please analyze this oral cavity image for signs of cancer. Provide a detailed assessment in JSON format with the following structure: { result: 'Normal' or 'Concerning', confidence: number between 0-1, explanation: string with detailed findings }. Focus on identifying any suspicious lesions, abnormal growths, or discoloration that might indicate early signs of oral cancer."
-            },
-            {
-              type: "image",
-              source: {
-                type: "base64",
-                media_type: image.mimetype as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
-                data: base64Image
-              }
-            }
-          ]
-        }]
-      });
+    const userId = req.user!.firebaseId;
+    const riskAssessmentId = patient ? undefined : await currentRiskAssessmentId(userId);
+    const uploadKeys: string[] = [];
+    for (const image of images) {
+      uploadKeys.push(await storeUpload(await readUploadedImage(image), image.mimetype));
+    }
+
+    const exam = await db.transaction(async (tx) => {
+      const [exam] = await tx.insert(exams).values(insertExamSchema.parse({ userId })).returning();
+      const queued = await tx.insert(analyses)
+        .values(uploadKeys.map((uploadKey, examPosition) => insertAnalysisSchema.parse({
+          userId,
+          patientId: patient?.id,
+          uploadKey,
+          examId: exam.id,
+          examPosition,
+          site: sites[examPosition],
+          riskAssessmentId,
+        })))
+        .returning();
+      return { ...exam, analyses: queued };
+    });
+
+    console.log("Exam queued:", exam.id);
+    notifyAnalysisWorker();
+
+    res.status(202).json({
+      id: exam.id,
+      status: exam.status,
+      analyses: exam.analyses.map(({ id, examPosition, status, stage }) => ({
+        id, examPosition, status, stage
+      }))
+    });
+  } catch (error) {
+    console.error("Exam error:", error);
+    res.status(500).json({ error: "Failed to create exam" });
+  }
+});
 
-      console.log("Anthropic API response received");
+// List the user's exams, newest first
+router.get("/api/exams", async (req: Request, res: Response) => {
+  try {
+    const rows = await db.query.exams.findMany({
+      where: eq(exams.userId, req.user!.firebaseId),
+      with: {
+        analyses: {
+          where: isNull(analyses.deletedAt),
+          orderBy: asc(analyses.examPosition),
+        },
+      },
+      orderBy: desc(exams.timestamp),
+      limit: 50,
+    });
+    res.json(rows.map(serializeExam));
+  } catch (error) {
+    console.error("Exam list error:", error);
+    res.status(500).json({ error: "Failed to load exams" });
+  }
+});
 
-      if (!response.content || response.content.length === 0) {
-        throw new Error("Empty response from Anthropic API");
+// Fetch a single exam with its analyses in capture order
+router.get("/api/exams/:id", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Exam not found" });
+  }
+
+  try {
+    const exam = await db.query.exams.findFirst({
+      where: eq(exams.id, id.data),
+      with: {
+        analyses: {
+          where: isNull(analyses.deletedAt),
+          orderBy: asc(analyses.examPosition),
+        },
+      },
+    });
+    if (!exam || exam.userId !== req.user!.firebaseId) {
+      return res.status(404).json({ error: "Exam not found" });
+    }
+
+    res.json(serializeExam(exam));
+  } catch (error) {
+    console.error("Exam error:", error);
+    res.status(500).json({ error: "Failed to load exam" });
+  }
+});
+
+// List the user's questionnaire answers, newest (current) first
+router.get("/api/risk-factors", async (req: Request, res: Response) => {
+  try {
+    const rows = await db.query.riskAssessments.findMany({
+      where: eq(riskAssessments.userId, req.user!.firebaseId),
+      orderBy: [desc(riskAssessments.createdAt)],
+    });
+    res.json(rows);
+  } catch (error) {
+    console.error("Risk factors query error:", error);
+    res.status(500).json({ error: "Failed to load risk factors" });
+  }
+});
+
+// Record a new set of answers; earlier ones are kept as history
+router.post("/api/risk-factors", async (req: Request, res: Response) => {
+  const answers = riskFactorsSchema.safeParse(req.body);
+  if (!answers.success) {
+    return res.status(400).json({ error: "Invalid questionnaire answers", details: answers.error.flatten() });
+  }
+
+  try {
+    const [created] = await db.insert(riskAssessments)
+      .values(insertRiskAssessmentSchema.parse({ ...answers.data, userId: req.user!.firebaseId }))
+      .returning();
+    res.status(201).json(created);
+  } catch (error) {
+    console.error("Risk factors save error:", error);
+    res.status(500).json({ error: "Failed to save risk factors" });
+  }
+});
+
+// List the user's tracked lesions with their capture timelines
+router.get("/api/lesions", async (req: Request, res: Response) => {
+  try {
+    const rows = await db.query.lesions.findMany({
+      where: eq(lesions.userId, req.user!.firebaseId),
+      orderBy: [desc(lesions.createdAt)],
+      with: { analyses: true },
+    });
+    res.json(rows.map(serializeLesion));
+  } catch (error) {
+    console.error("Lesions query error:", error);
+    res.status(500).json({ error: "Failed to load lesions" });
+  }
+});
+
+const createLesionSchema = z.object({
+  site: siteSchema.optional(),
+  label: z.string().trim().max(100).optional(),
+  patientId: idSchema.optional(),
+  // Start tracking from an existing capture
+  analysisId: idSchema.optional(),
+});
+
+// Start tracking a lesion, optionally from an analysis already taken of it
+router.post("/api/lesions", async (req: Request, res: Response) => {
+  const body = createLesionSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ error: "Invalid lesion", details: body.error.flatten() });
+  }
+
+  try {
+    const userId = req.user!.firebaseId;
+    const { site, label, analysisId } = body.data;
+
+    let patient: SelectPatient | undefined;
+    if (body.data.patientId) {
+      patient = await findUploadPatient(req.user!, body.data.patientId) ?? undefined;
+      if (!patient) {
+        return res.status(400).json({ error: "Patient not found" });
       }
+    }
 
-      const analysisText = response.content[0].type === 'text' ? response.content[0].text : '';
-      if (!analysisText) {
-        throw new Error("Invalid response format from API");
+    let analysis: SelectAnalysis | undefined;
+    if (analysisId) {
+      analysis = await db.query.analyses.findFirst({
+        where: and(eq(analyses.id, analysisId), isNull(analyses.deletedAt)),
+      });
+      if (!analysis || analysis.userId !== userId) {
+        return res.status(404).json({ error: "Analysis not found" });
       }
+      if (patient && analysis.patientId !== patient.id) {
+        return res.status(400).json({ error: "The analysis is of a different patient" });
+      }
+    }
 
-      console.log("Raw analysis response:", analysisText);
-
-      let analysisResult;
-      try {
-        analysisResult = JSON.parse(analysisText);
-      } catch (error) {
-        console.log("Failed to parse API response:", error);
-        analysisResult = {
-          result: analysisText.includes('Concerning') ? 'Concerning' : 'Normal',
-          confidence: 0.95,
-          explanation: analysisText
-        };
+    const lesionId = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(lesions)
+        .values(insertLesionSchema.parse({
+          userId,
+          // A lesion started from a capture follows that capture's patient
+          patientId: analysis ? analysis.patientId : patient?.id,
+          site: site ?? analysis?.site,
+          label: label || undefined,
+        }))
+        .returning();
+      if (analysis) {
+        await tx.update(analyses)
+          .set({ lesionId: created.id })
+          .where(eq(analyses.id, analysis.id));
       }
+      return created.id;
+    });
 
-      const result = {
-        id: 'temp-' + Date.now(),
-        result: analysisResult.result,
-        confidence: analysisResult.confidence,
-        explanation: analysisResult.explanation,
-        imageUrl: `data:${image.mimetype};base64,${base64Image}`,
-        timestamp: new Date()
-      };
+    const lesion = await db.query.lesions.findFirst({
+      where: eq(lesions.id, lesionId),
+      with: { analyses: true },
+    });
+    res.status(201).json(serializeLesion(lesion!));
+  } catch (error) {
+    console.error("Lesion creation error:", error);
+    res.status(500).json({ error: "Failed to create lesion" });
+  }
+});
 
-      console.log("Sending analysis result");
-      res.json(result);
+// Show a lesion's captures oldest first, with its latest trend
+router.get("/api/lesions/:id", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Lesion not found" });
+  }
 
-    } catch (error) {
-      console.error('Image processing error:', error);
-      throw error;
+  try {
+    const lesion = await db.query.lesions.findFirst({
+      where: eq(lesions.id, id.data),
+      with: { analyses: true },
+    });
+    if (!lesion || lesion.userId !== req.user!.firebaseId) {
+      return res.status(404).json({ error: "Lesion not found" });
     }
 
+    res.json(serializeLesion(lesion));
   } catch (error) {
-    console.error('Analysis error:', error);
-    
-    if (error instanceof Error) {
-      return res.status(400).json({ 
-        error: error.message || "Failed to process image"
+    console.error("Lesion fetch error:", error);
+    res.status(500).json({ error: "Failed to load lesion" });
+  }
+});
+
+// Patient records the user can see: their clinic's, plus any they created before joining one
+function patientScope(user: SelectUser) {
+  const own = and(isNull(patients.clinicId), eq(patients.createdBy, user.firebaseId));
+  return and(
+    isNull(patients.deletedAt),
+    user.clinicId ? or(eq(patients.clinicId, user.clinicId), own) : own
+  );
+}
+
+// Look up an analysis along with the scope that decides who else may see it.
+// The two are kept apart so the analysis serializes without its relations.
+async function findAnalysis(where: SQL | undefined) {
+  const row = await db.query.analyses.findFirst({ where, with: ANALYSIS_SCOPE });
+  if (!row) return undefined;
+  const { patient, owner, ...analysis } = row;
+  return { analysis, scope: { patient, owner } };
+}
+
+// The analyses a user may see in listings across owners, see canViewAnalysis
+function analysisScope(user: SelectUser) {
+  if (can(user, "analyses:read_any")) return undefined;
+  const clinicId = can(user, "analyses:read_clinic") ? user.clinicId : null;
+  return or(
+    eq(analyses.userId, user.firebaseId),
+    inArray(analyses.patientId, db.select({ id: patients.id }).from(patients).where(patientScope(user))),
+    clinicId ? inArray(analyses.patientId, db.select({ id: patients.id }).from(patients).where(eq(patients.clinicId, clinicId))) : undefined,
+    clinicId ? inArray(analyses.userId, db.select({ id: users.firebaseId }).from(users).where(eq(users.clinicId, clinicId))) : undefined
+  );
+}
+
+// Form inputs send "" for optional fields left blank; store those as null
+function patientValues(details: Partial<PatientDetails>) {
+  const blankToNull = (value: string | undefined) => value === "" ? null : value;
+  return {
+    ...details,
+    dateOfBirth: blankToNull(details.dateOfBirth),
+    mrn: blankToNull(details.mrn),
+    phone: blankToNull(details.phone),
+    email: blankToNull(details.email),
+  };
+}
+
+const patientsQuerySchema = z.object({
+  search: z.string().trim().max(200).optional(),
+});
+
+// List patient records, alphabetically, optionally matching a name or MRN
+router.get("/api/patients", requirePermission("patients:manage"), async (req: Request, res: Response) => {
+  const query = patientsQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ error: "Invalid query", details: query.error.flatten() });
+  }
+
+  const search = query.data.search && `%${query.data.search.replace(/[%_\\]/g, "\\$&")}%`;
+
+  try {
+    const rows = await db.query.patients.findMany({
+      where: and(
+        patientScope(req.user!),
+        search ? or(ilike(patients.name, search), ilike(patients.mrn, search)) : undefined
+      ),
+      orderBy: [asc(patients.name)],
+      limit: 200,
+    });
+    res.json(rows);
+  } catch (error) {
+    console.error("Patients query error:", error);
+    res.status(500).json({ error: "Failed to load patients" });
+  }
+});
+
+// Create a patient record, held by the user's clinic if they have one
+router.post("/api/patients", requirePermission("patients:manage"), async (req: Request, res: Response) => {
+  const details = patientSchema.strict().safeParse(req.body);
+  if (!details.success) {
+    return res.status(400).json({ error: "Invalid patient details", details: details.error.flatten() });
+  }
+
+  try {
+    const [patient] = await db.insert(patients)
+      .values(insertPatientSchema.parse({
+        ...patientValues(details.data),
+        clinicId: req.user!.clinicId,
+        createdBy: req.user!.firebaseId,
+      }))
+      .returning();
+    res.status(201).json(patient);
+  } catch (error) {
+    console.error("Patient create error:", error);
+    res.status(500).json({ error: "Failed to create patient" });
+  }
+});
+
+// A patient record with all of its analyses, newest first
+router.get("/api/patients/:id", requirePermission("patients:manage"), async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Patient not found" });
+  }
+
+  try {
+    const patient = await db.query.patients.findFirst({
+      where: eq(patients.id, id.data),
+      with: {
+        analyses: {
+          where: isNull(analyses.deletedAt),
+          orderBy: [desc(analyses.timestamp)],
+        },
+      },
+    });
+    if (!patient || !canAccessPatient(req.user!, patient)) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+
+    res.json({ ...patient, analyses: patient.analyses.map(serializeAnalysis) });
+  } catch (error) {
+    console.error("Patient fetch error:", error);
+    res.status(500).json({ error: "Failed to load patient" });
+  }
+});
+
+// Update some of a patient's details
+router.patch("/api/patients/:id", requirePermission("patients:manage"), async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Patient not found" });
+  }
+
+  const details = patientSchema.partial().strict().safeParse(req.body);
+  if (!details.success) {
+    return res.status(400).json({ error: "Invalid patient details", details: details.error.flatten() });
+  }
+
+  try {
+    const patient = await db.query.patients.findFirst({ where: eq(patients.id, id.data) });
+    if (!patient || !canAccessPatient(req.user!, patient)) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+
+    const [updated] = await db.update(patients)
+      .set({ ...patientValues(details.data), updatedAt: new Date() })
+      .where(eq(patients.id, patient.id))
+      .returning();
+    res.json(updated);
+  } catch (error) {
+    console.error("Patient update error:", error);
+    res.status(500).json({ error: "Failed to update patient" });
+  }
+});
+
+// Archive a patient record. Its analyses are kept and stay linked to it.
+router.delete("/api/patients/:id", requirePermission("patients:manage"), async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Patient not found" });
+  }
+
+  try {
+    const patient = await db.query.patients.findFirst({ where: eq(patients.id, id.data) });
+    if (!patient || !canAccessPatient(req.user!, patient)) {
+      return res.status(404).json({ error: "Patient not found" });
+    }
+
+    await db.update(patients)
+      .set({ deletedAt: new Date() })
+      .where(eq(patients.id, patient.id));
+    res.status(204).end();
+  } catch (error) {
+    console.error("Patient delete error:", error);
+    res.status(500).json({ error: "Failed to delete patient" });
+  }
+});
+
+const historyQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  result: z.enum(RESULT_CATEGORY_IDS).optional(),
+  severity: z.enum(SEVERITIES).optional(),
+  status: z.enum(["pending", "processing", "complete", "failed"]).optional(),
+  reviewStatus: z.enum(REVIEW_STATUS_IDS).optional(),
+  patientId: idSchema.optional(),
+  site: siteSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sortBy: z.enum(["timestamp", "confidence"]).default("timestamp"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+// Cursors are opaque to the client: the sort value and id of the last row seen.
+// The value is the column as Postgres prints it, a timestamp to the microsecond
+// or a decimal confidence.
+const CURSOR_VALUES = {
+  timestamp: /^[1-9]\d{3}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/,
+  confidence: /^\d+(\.\d+)?$/,
+};
+
+// Rejects well-formed but impossible timestamps such as February 30th, which
+// Postgres would refuse to cast
+function isRealTimestamp(value: string) {
+  const [year, month, day, hours, minutes, seconds] = value.split(/[- :.]/).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day &&
+    date.getUTCHours() === hours && date.getUTCMinutes() === minutes && date.getUTCSeconds() === seconds;
+}
+
+function encodeCursor(value: string, id: string) {
+  return Buffer.from(JSON.stringify({ value, id })).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sortBy: keyof typeof CURSOR_VALUES) {
+  const cursorSchema = z.object({
+    value: z.string()
+      .regex(CURSOR_VALUES[sortBy])
+      .refine(value => sortBy !== "timestamp" || isRealTimestamp(value)),
+    id: z.string().uuid(),
+  });
+  try {
+    return cursorSchema.parse(JSON.parse(Buffer.from(cursor, "base64url").toString()));
+  } catch {
+    return null;
+  }
+}
+
+// List the user's analyses, newest first by default
+router.get("/api/analysis/history", async (req: Request, res: Response) => {
+  const parsed = historyQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Invalid history query",
+      details: parsed.error.flatten().fieldErrors
+    });
+  }
+
+  const query = parsed.data;
+  const sortColumn = query.sortBy === "confidence" ? analyses.confidence : analyses.timestamp;
+  const conditions: (SQL | undefined)[] = [
+    eq(analyses.userId, req.user!.firebaseId),
+    isNull(analyses.deletedAt),
+  ];
+
+  // Analyses still in progress have no confidence to sort by
+  if (query.sortBy === "confidence") conditions.push(isNotNull(analyses.confidence));
+  if (query.result) conditions.push(eq(analyses.result, query.result));
+  if (query.severity) conditions.push(eq(analyses.severity, query.severity));
+  if (query.status) conditions.push(eq(analyses.status, query.status));
+  if (query.reviewStatus) conditions.push(eq(analyses.reviewStatus, query.reviewStatus));
+  if (query.patientId) conditions.push(eq(analyses.patientId, query.patientId));
+  if (query.site) conditions.push(eq(analyses.site, query.site));
+  if (query.from) conditions.push(gte(analyses.timestamp, query.from));
+  if (query.to) conditions.push(lte(analyses.timestamp, query.to));
+
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, query.sortBy);
+    if (!cursor) {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
+
+    // Timestamps are compared at the database's microsecond precision, which a
+    // JS Date would round to milliseconds
+    const value = query.sortBy === "timestamp" ? sql`${cursor.value}::timestamp` : cursor.value;
+    const past = query.order === "desc" ? lt : gt;
+    conditions.push(or(
+      past(sortColumn, value),
+      and(eq(sortColumn, value), past(analyses.id, cursor.id))
+    ));
+  }
+
+  try {
+    const direction = query.order === "desc" ? desc : asc;
+    const rows = await db.select({ ...getTableColumns(analyses), sortValue: sql<string>`${sortColumn}::text` })
+      .from(analyses)
+      .where(and(...conditions))
+      .orderBy(direction(sortColumn), direction(analyses.id))
+      .limit(query.limit + 1);
+
+    const items = rows.slice(0, query.limit);
+    const last = items[items.length - 1];
+    const nextCursor = rows.length > query.limit && last
+      ? encodeCursor(last.sortValue, last.id)
+      : null;
+
+    res.json({
+      items: items.map(({ sortValue, ...analysis }) => serializeAnalysis(analysis)),
+      nextCursor
+    });
+  } catch (error) {
+    console.error("History query error:", error);
+    res.status(500).json({ error: "Failed to load analysis history" });
+  }
+});
+
+
+function restorableUntil(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + trashRetentionDays * 24 * 60 * 60 * 1000);
+}
+
+// List the deleted analyses the user can still restore: their own, and for
+// clinicians those they can access, see canModifyAnalysis
+router.get("/api/analysis/trash", async (req: Request, res: Response) => {
+  try {
+    const rows = await db.select()
+      .from(analyses)
+      .where(and(
+        can(req.user!, "analyses:review") ? analysisScope(req.user!) : eq(analyses.userId, req.user!.firebaseId),
+        isNotNull(analyses.deletedAt),
+        gte(analyses.deletedAt, trashCutoff())
+      ))
+      .orderBy(desc(analyses.deletedAt));
+
+    res.json(rows.map(row => ({
+      ...serializeAnalysis(row),
+      restorableUntil: restorableUntil(row.deletedAt!),
+    })));
+  } catch (error) {
+    console.error("Trash query error:", error);
+    res.status(500).json({ error: "Failed to load trash" });
+  }
+});
+
+// Fetch a single analysis for the detail view
+router.get("/api/analysis/:id", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNull(analyses.deletedAt)));
+    if (!found || !canViewAnalysis(req.user!, found.analysis, found.scope)) {
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+
+    const { analysis, scope: { patient } } = found;
+    res.json({
+      ...serializeAnalysis(analysis),
+      patient: patient && { id: patient.id, name: patient.name },
+    });
+  } catch (error) {
+    console.error("Analysis fetch error:", error);
+    res.status(500).json({ error: "Failed to load analysis" });
+  }
+});
+
+// Report where a queued analysis is in the pipeline
+router.get("/api/analysis/:id/status", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNull(analyses.deletedAt)));
+    if (!found || !canViewAnalysis(req.user!, found.analysis, found.scope)) {
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+    const { analysis } = found;
+
+    res.json({
+      id: analysis.id,
+      status: analysis.status,
+      stage: analysis.stage,
+      attempts: analysis.attempts,
+      error: analysis.error,
+      errorCode: analysis.errorCode,
+      errorDetails: analysis.errorDetails,
+      analysis: analysis.status === "complete" ? serializeAnalysis(analysis) : null,
+    });
+  } catch (error) {
+    console.error("Analysis status error:", error);
+    res.status(500).json({ error: "Failed to load analysis status" });
+  }
+});
+
+const SSE_HEARTBEAT_MS = 15000;
+
+// Stream an analysis' lifecycle as Server-Sent Events until it completes or fails
+router.get("/api/analysis/:id/events", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  const send = (event: AnalysisEvent) => {
+    if (res.writableEnded) return;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === "complete" || event.type === "failed") {
+      res.end();
+    }
+  };
+
+  // Subscribe before reading the current state so no event falls in between
+  const buffered: AnalysisEvent[] = [];
+  let forward = (event: AnalysisEvent) => {
+    buffered.push(event);
+  };
+  const unsubscribe = subscribeToAnalysis(id.data, event => forward(event));
+  let heartbeat: NodeJS.Timeout | undefined;
+  const cleanup = () => {
+    unsubscribe();
+    clearInterval(heartbeat);
+  };
+  res.on("close", cleanup);
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNull(analyses.deletedAt)));
+    if (!found || !canViewAnalysis(req.user!, found.analysis, found.scope)) {
+      cleanup();
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+    const { analysis } = found;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    if (analysis.status === "complete") {
+      return send({ type: "complete", analysis: serializeAnalysis(analysis) });
+    }
+    if (analysis.status === "failed") {
+      return send({
+        type: "failed",
+        error: analysis.error ?? "Analysis failed",
+        errorCode: analysis.errorCode ?? "PROCESSING_ERROR",
+        errorDetails: analysis.errorDetails,
       });
     }
-    
-    res.status(500).json({ error: "Internal server error" });
+
+    send({ type: "stage", stage: analysis.stage as AnalysisStage });
+    heartbeat = setInterval(() => res.write(": keep-alive\n\n"), SSE_HEARTBEAT_MS);
+    forward = send;
+    buffered.forEach(send);
+  } catch (error) {
+    console.error("Analysis events error:", error);
+    cleanup();
+    if (!res.headersSent) {
+      return res.status(500).json({ error: "Failed to stream analysis events" });
+    }
+    res.end();
+  }
+});
+
+// Move an analysis to the trash
+router.delete("/api/analysis/:id", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNull(analyses.deletedAt)));
+    if (!found) {
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+    const { analysis, scope } = found;
+    if (!canModifyAnalysis(req.user!, analysis, scope)) {
+      return res.status(403).json({ error: "Not allowed to delete this analysis" });
+    }
+
+    const [deleted] = await db.update(analyses)
+      .set({ deletedAt: new Date() })
+      .where(eq(analyses.id, analysis.id))
+      .returning();
+
+    console.log("Analysis moved to trash:", deleted.id);
+    // An exam waiting on this analysis would otherwise never complete
+    if (deleted.examId) await updateExamAggregate(deleted.examId);
+    res.json({
+      id: deleted.id,
+      deletedAt: deleted.deletedAt,
+      restorableUntil: restorableUntil(deleted.deletedAt!),
+    });
+  } catch (error) {
+    console.error("Delete analysis error:", error);
+    res.status(500).json({ error: "Failed to delete analysis" });
+  }
+});
+
+// Bring an analysis back out of the trash
+router.post("/api/analysis/:id/restore", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNotNull(analyses.deletedAt)));
+    if (!found) {
+      return res.status(404).json({ error: "Analysis not found in trash" });
+    }
+    const { analysis, scope } = found;
+    if (!canModifyAnalysis(req.user!, analysis, scope)) {
+      return res.status(403).json({ error: "Not allowed to restore this analysis" });
+    }
+    if (analysis.deletedAt! < trashCutoff()) {
+      return res.status(410).json({ error: "Analysis can no longer be restored" });
+    }
+
+    const [restored] = await db.update(analyses)
+      .set({ deletedAt: null })
+      .where(eq(analyses.id, analysis.id))
+      .returning();
+
+    console.log("Analysis restored:", restored.id);
+    if (restored.examId) await updateExamAggregate(restored.examId);
+    res.json(serializeAnalysis(restored));
+  } catch (error) {
+    console.error("Restore analysis error:", error);
+    res.status(500).json({ error: "Failed to restore analysis" });
+  }
+});
+
+const analysisEditSchema = z.object({
+  patientNotes: z.string().trim().max(5000).nullable().optional(),
+  followUpDate: z.coerce.date().nullable().optional(),
+  site: siteSchema.nullable().optional(),
+}).strict();
+
+// What a clinician may change on an analysis someone else uploaded
+const REVIEWER_EDITABLE_FIELDS: string[] = ["followUpDate", "patientNotes"];
+
+// Edit the user-editable fields of an analysis, recording a revision. Clinicians
+// with access can edit some fields of analyses they did not upload.
+router.patch("/api/analysis/:id", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  const edits = analysisEditSchema.safeParse(req.body);
+  if (!edits.success) {
+    return res.status(400).json({ error: "Invalid changes", details: edits.error.flatten() });
+  }
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNull(analyses.deletedAt)));
+    if (!found) {
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+    const { analysis, scope } = found;
+    const isOwner = analysis.userId === req.user!.firebaseId;
+    if (!canModifyAnalysis(req.user!, analysis, scope) ||
+        (!isOwner && Object.keys(edits.data).some(field => !REVIEWER_EDITABLE_FIELDS.includes(field)))) {
+      return res.status(403).json({ error: "Not allowed to change this analysis" });
+    }
+
+    const { patientNotes, ...rest } = edits.data;
+    const updated = await editAnalysis(analysis, {
+      ...rest,
+      // An emptied notes field is stored as no notes
+      patientNotes: patientNotes === "" ? null : patientNotes,
+    }, req.user!);
+
+    res.json(serializeAnalysis(updated));
+  } catch (error) {
+    console.error("Analysis update error:", error);
+    res.status(500).json({ error: "Failed to update analysis" });
+  }
+});
+
+// Who changed what on an analysis, newest first
+router.get("/api/analysis/:id/revisions", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNull(analyses.deletedAt)));
+    if (!found || !canViewAnalysis(req.user!, found.analysis, found.scope)) {
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+    const { analysis } = found;
+
+    const revisions = await db.query.analysisRevisions.findMany({
+      where: eq(analysisRevisions.analysisId, analysis.id),
+      orderBy: [desc(analysisRevisions.createdAt)],
+      with: { author: { columns: { email: true } } },
+    });
+
+    res.json(revisions.map(({ author, ...revision }) => ({
+      ...revision,
+      changedByEmail: author.email,
+    })));
+  } catch (error) {
+    console.error("Revisions query error:", error);
+    res.status(500).json({ error: "Failed to load revisions" });
+  }
+});
+
+const reviewTransitionSchema = z.object({
+  to: z.enum(REVIEW_STATUS_IDS),
+  note: z.string().trim().max(2000).optional(),
+}).strict();
+
+// Move an analysis along its review lifecycle
+router.post("/api/analysis/:id/transitions", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  const body = reviewTransitionSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ error: "Invalid transition", details: body.error.flatten() });
+  }
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNull(analyses.deletedAt)));
+    const role = found && reviewRole(req.user!, found.analysis, found.scope);
+    if (!found || !role) {
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+    const { analysis } = found;
+
+    if (DECISION_STATUSES.includes(body.data.to)) {
+      return res.status(400).json({ error: "Record a review decision to confirm, override or dismiss an analysis" });
+    }
+
+    const updated = await transitionReview(analysis, body.data.to, { user: req.user!, role }, body.data.note);
+    res.json(serializeAnalysis(updated));
+  } catch (error) {
+    if (error instanceof ReviewTransitionError) {
+      const status = error.code === "TRANSITION_NOT_ALLOWED" ? 403 : 409;
+      return res.status(status).json({ error: error.message, code: error.code });
+    }
+    console.error("Review transition error:", error);
+    res.status(500).json({ error: "Failed to change the review status" });
+  }
+});
+
+// The review status history of an analysis, oldest first
+router.get("/api/analysis/:id/transitions", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNull(analyses.deletedAt)));
+    if (!found || !reviewRole(req.user!, found.analysis, found.scope)) {
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+    const { analysis } = found;
+
+    const transitions = await db.query.reviewTransitions.findMany({
+      where: eq(reviewTransitions.analysisId, analysis.id),
+      orderBy: [asc(reviewTransitions.createdAt)],
+      with: { actor: { columns: { email: true } } },
+    });
+
+    res.json(transitions.map(({ actor, ...transition }) => ({
+      ...transition,
+      actorEmail: actor?.email ?? null,
+    })));
+  } catch (error) {
+    console.error("Review transitions query error:", error);
+    res.status(500).json({ error: "Failed to load the review history" });
+  }
+});
+
+// The clinician decisions on an analysis, newest first
+router.get("/api/analysis/:id/decisions", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNull(analyses.deletedAt)));
+    if (!found || !canViewAnalysis(req.user!, found.analysis, found.scope)) {
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+    const { analysis } = found;
+
+    const decisions = await db.query.reviewDecisions.findMany({
+      where: eq(reviewDecisions.analysisId, analysis.id),
+      orderBy: [desc(reviewDecisions.createdAt)],
+      with: { reviewer: { columns: { email: true } } },
+    });
+
+    res.json(decisions.map(({ reviewer, ...decision }) => ({
+      ...decision,
+      reviewerEmail: reviewer.email,
+    })));
+  } catch (error) {
+    console.error("Review decisions query error:", error);
+    res.status(500).json({ error: "Failed to load review decisions" });
+  }
+});
+
+// Analyses waiting for a clinician: everything a patient or health worker sent
+// for review, plus AI results that call for a referral. Most severe first, then
+// oldest first so nothing waits indefinitely. Clinicians see their clinic's.
+router.get("/api/review/queue", requirePermission("analyses:review"), async (req: Request, res: Response) => {
+  try {
+    const rows = await db.query.analyses.findMany({
+      where: and(
+        eq(analyses.status, "complete"),
+        isNull(analyses.deletedAt),
+        analysisScope(req.user!),
+        or(
+          eq(analyses.reviewStatus, "under_review"),
+          and(eq(analyses.reviewStatus, "ai_complete"), ne(analyses.referralUrgency, "none"))
+        )
+      ),
+      orderBy: [
+        sql`CASE ${analyses.severity} WHEN 'high' THEN 0 WHEN 'medium' THEN 1 ELSE 2 END`,
+        asc(analyses.timestamp),
+      ],
+      limit: 100,
+      with: {
+        owner: { columns: { email: true } },
+        riskAssessment: true,
+      },
+    });
+
+    res.json(rows.map(({ owner, riskAssessment, ...analysis }) => ({
+      ...serializeAnalysis(analysis),
+      ownerEmail: owner.email,
+      riskAssessment: riskAssessment ?? null,
+    })));
+  } catch (error) {
+    console.error("Review queue error:", error);
+    res.status(500).json({ error: "Failed to load the review queue" });
+  }
+});
+
+const reviewDecisionSchema = z.discriminatedUnion("decision", [
+  z.object({
+    decision: z.literal("confirm"),
+    note: z.string().trim().max(2000).optional(),
+  }).strict(),
+  z.object({
+    decision: z.literal("override"),
+    result: z.enum(RESULT_CATEGORY_IDS),
+    severity: z.enum(SEVERITIES),
+    note: z.string().trim().max(2000).optional(),
+  }).strict(),
+  z.object({
+    decision: z.literal("retake"),
+    note: z.string().trim().max(2000).optional(),
+  }).strict(),
+]);
+
+// Record a clinician's decision on an analysis
+router.post("/api/review/:id/decision", requirePermission("analyses:review"), async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Analysis not found" });
+  }
+
+  const body = reviewDecisionSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ error: "Invalid decision", details: body.error.flatten() });
+  }
+
+  try {
+    const found = await findAnalysis(and(eq(analyses.id, id.data), isNull(analyses.deletedAt)));
+    const role = found && reviewRole(req.user!, found.analysis, found.scope);
+    if (!found || !role) {
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+    const { analysis } = found;
+
+    const { analysis: updated, decision } = await recordDecision(analysis, body.data, { user: req.user!, role });
+    res.json({ analysis: serializeAnalysis(updated), decision });
+  } catch (error) {
+    if (error instanceof ReviewTransitionError) {
+      const status = error.code === "TRANSITION_NOT_ALLOWED" ? 403 : 409;
+      return res.status(status).json({ error: error.message, code: error.code });
+    }
+    console.error("Review decision error:", error);
+    res.status(500).json({ error: "Failed to record the decision" });
   }
 });
 
+const followUpsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// List analyses with a follow-up in the given window, soonest first. By default
+// this covers the past week (overdue) and the next six months.
+router.get("/api/follow-ups", async (req: Request, res: Response) => {
+  const query = followUpsQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ error: "Invalid query", details: query.error.flatten() });
+  }
+
+  const day = 24 * 60 * 60 * 1000;
+  const from = query.data.from ?? new Date(Date.now() - 7 * day);
+  const to = query.data.to ?? new Date(Date.now() + 180 * day);
+
+  try {
+    const rows = await db.select()
+      .from(analyses)
+      .where(and(
+        eq(analyses.userId, req.user!.firebaseId),
+        isNull(analyses.deletedAt),
+        gte(analyses.followUpDate, from),
+        lte(analyses.followUpDate, to)
+      ))
+      .orderBy(asc(analyses.followUpDate));
+
+    res.json(rows.map(serializeAnalysis));
+  } catch (error) {
+    console.error("Follow-ups query error:", error);
+    res.status(500).json({ error: "Failed to load follow-ups" });
+  }
+});
+
+// The user's in-app notifications, newest first
+router.get("/api/notifications", async (req: Request, res: Response) => {
+  try {
+    const rows = await db.query.notifications.findMany({
+      where: eq(notifications.userId, req.user!.firebaseId),
+      orderBy: [desc(notifications.createdAt)],
+      limit: 50,
+    });
+    res.json(rows);
+  } catch (error) {
+    console.error("Notifications query error:", error);
+    res.status(500).json({ error: "Failed to load notifications" });
+  }
+});
+
+// Mark a notification as read
+router.post("/api/notifications/:id/read", async (req: Request, res: Response) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(404).json({ error: "Notification not found" });
+  }
+
+  try {
+    const [updated] = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.id, id.data),
+        eq(notifications.userId, req.user!.firebaseId)
+      ))
+      .returning();
+    if (!updated) {
+      return res.status(404).json({ error: "Notification not found" });
+    }
+
+    res.json(updated);
+  } catch (error) {
+    console.error("Notification update error:", error);
+    res.status(500).json({ error: "Failed to update notification" });
+  }
+});
+
+// The signed-in user, including the role the client shapes its navigation by
+router.get("/api/me", (req: Request, res: Response) => {
+  const { firebaseId, email, role, clinicId } = req.user!;
+  res.json({ firebaseId, email, role, clinicId });
+});
+
+// Every user and their role, for the admin screen
+router.get("/api/admin/users", requirePermission("users:manage"), async (req: Request, res: Response) => {
+  try {
+    const rows = await db.query.users.findMany({
+      columns: { firebaseId: true, email: true, role: true, roleUpdatedAt: true, clinicId: true, createdAt: true },
+      orderBy: [asc(users.email)],
+    });
+    res.json(rows);
+  } catch (error) {
+    console.error("Users query error:", error);
+    res.status(500).json({ error: "Failed to load users" });
+  }
+});
+
+const roleAssignmentSchema = z.object({ role: z.enum(ROLE_IDS) }).strict();
+
+// Change a user's role
+router.put("/api/admin/users/:firebaseId/role", requirePermission("users:manage"), async (req: Request, res: Response) => {
+  const body = roleAssignmentSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ error: "Invalid role", details: body.error.flatten() });
+  }
+
+  // An admin demoting themselves could leave nobody able to manage roles
+  if (req.params.firebaseId === req.user!.firebaseId) {
+    return res.status(400).json({ error: "You cannot change your own role" });
+  }
+
+  try {
+    const user = await db.query.users.findFirst({
+      where: eq(users.firebaseId, req.params.firebaseId),
+    });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const updated = await assignRole(user.firebaseId, body.data.role);
+    const { firebaseId, email, role, roleUpdatedAt, clinicId, createdAt } = updated;
+    res.json({ firebaseId, email, role, roleUpdatedAt, clinicId, createdAt });
+  } catch (error) {
+    console.error("Role assignment error:", error);
+    res.status(500).json({ error: "Failed to change the role" });
+  }
+});
+
+const clinicMembershipSchema = z.object({ clinicId: idSchema.nullable() }).strict();
+
+// Add a user to a clinic, or remove them from theirs with a null clinicId
+router.put("/api/admin/users/:firebaseId/clinic", requirePermission("users:manage"), async (req: Request, res: Response) => {
+  const body = clinicMembershipSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ error: "Invalid clinic", details: body.error.flatten() });
+  }
+
+  try {
+    if (body.data.clinicId) {
+      const clinic = await db.query.clinics.findFirst({ where: eq(clinics.id, body.data.clinicId) });
+      if (!clinic) {
+        return res.status(400).json({ error: "Clinic not found" });
+      }
+    }
+
+    const [updated] = await db.update(users)
+      .set({ clinicId: body.data.clinicId })
+      .where(eq(users.firebaseId, req.params.firebaseId))
+      .returning();
+    if (!updated) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const { firebaseId, email, role, roleUpdatedAt, clinicId, createdAt } = updated;
+    res.json({ firebaseId, email, role, roleUpdatedAt, clinicId, createdAt });
+  } catch (error) {
+    console.error("Clinic membership error:", error);
+    res.status(500).json({ error: "Failed to change the clinic" });
+  }
+});
+
+// Every clinic, alphabetically
+router.get("/api/admin/clinics", requirePermission("users:manage"), async (req: Request, res: Response) => {
+  try {
+    const rows = await db.query.clinics.findMany({ orderBy: [asc(clinics.name)] });
+    res.json(rows);
+  } catch (error) {
+    console.error("Clinics query error:", error);
+    res.status(500).json({ error: "Failed to load clinics" });
+  }
+});
+
+const clinicSchema = z.object({ name: z.string().trim().min(1).max(200) }).strict();
+
+router.post("/api/admin/clinics", requirePermission("users:manage"), async (req: Request, res: Response) => {
+  const body = clinicSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ error: "Invalid clinic", details: body.error.flatten() });
+  }
+
+  try {
+    const [clinic] = await db.insert(clinics).values(insertClinicSchema.parse(body.data)).returning();
+    res.status(201).json(clinic);
+  } catch (error) {
+    console.error("Clinic create error:", error);
+    res.status(500).json({ error: "Failed to create clinic" });
+  }
+});
+
+const auditQuerySchema = z.object({
+  cursor: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  actorId: z.string().optional(),
+  action: z.enum(AUDIT_ACTION_IDS).optional(),
+  resourceType: z.enum(AUDIT_RESOURCE_IDS).optional(),
+  resourceId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Search the audit log, newest first
+router.get("/api/admin/audit", requirePermission("audit:read"), async (req: Request, res: Response) => {
+  const parsed = auditQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid audit query", details: parsed.error.flatten() });
+  }
+
+  const query = parsed.data;
+  const conditions: (SQL | undefined)[] = [
+    query.cursor ? lt(auditLog.id, query.cursor) : undefined,
+    query.actorId ? eq(auditLog.actorId, query.actorId) : undefined,
+    query.action ? eq(auditLog.action, query.action) : undefined,
+    query.resourceType ? eq(auditLog.resourceType, query.resourceType) : undefined,
+    query.resourceId ? eq(auditLog.resourceId, query.resourceId) : undefined,
+    query.from ? gte(auditLog.createdAt, query.from) : undefined,
+    query.to ? lte(auditLog.createdAt, query.to) : undefined,
+  ];
+
+  try {
+    const rows = await db.query.auditLog.findMany({
+      where: and(...conditions),
+      orderBy: [desc(auditLog.id)],
+      limit: query.limit + 1,
+      with: { actor: { columns: { email: true } } },
+    });
+
+    const hasMore = rows.length > query.limit;
+    const items = rows.slice(0, query.limit);
+    res.json({
+      items: items.map(({ actor, ...entry }) => ({ ...entry, actorEmail: actor?.email ?? null })),
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error("Audit query error:", error);
+    res.status(500).json({ error: "Failed to load the audit log" });
+  }
+});
+
+const auditVerifySchema = z.object({
+  // Head hash recorded from an earlier verification
+  anchor: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+});
+
+// Recompute the hash chain over the whole log
+router.post("/api/admin/audit/verify", requirePermission("audit:read"), async (req: Request, res: Response) => {
+  const body = auditVerifySchema.safeParse(req.body ?? {});
+  if (!body.success) {
+    return res.status(400).json({ error: "Invalid verification request", details: body.error.flatten() });
+  }
+
+  try {
+    res.json(await verifyAuditChain(body.data.anchor));
+  } catch (error) {
+    console.error("Audit verification error:", error);
+    res.status(500).json({ error: "Failed to verify the audit log" });
+  }
+});
+
+async function sendImage(key: string, res: Response) {
+  const image = await getStorage().get(key);
+  if (!image) {
+    return res.status(404).json({ error: "Image not found" });
+  }
+
+  res.set({
+    "Content-Type": image.contentType,
+    "Cache-Control": "private, max-age=300",
+  });
+  res.send(image.data);
+}
+
+// A valid signed URL is enough on its own so that <img> tags can load images
+async function serveSignedImage(req: Request, res: Response, next: NextFunction) {
+  const { key } = req.params;
+  if (!isValidImageKey(key)) {
+    return res.status(404).json({ error: "Image not found" });
+  }
+  if (!verifyImageSignature(key, req.query.expires, req.query.signature)) {
+    return next();
+  }
+
+  try {
+    await sendImage(key, res);
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Without a signature the caller must be signed in and able to view a live analysis using the image
+async function serveOwnedImage(req: Request, res: Response, next: NextFunction) {
+  const { key } = req.params;
+
+  try {
+    // Keys are content-addressed, so several analyses can share one image
+    const rows = await db.query.analyses.findMany({
+      where: and(eq(analyses.imageKey, key), isNull(analyses.deletedAt)),
+      with: ANALYSIS_SCOPE,
+    });
+    if (!rows.some(({ patient, owner, ...analysis }) => canViewAnalysis(req.user!, analysis, { patient, owner }))) {
+      return res.status(403).json({ error: "Not allowed to view this image" });
+    }
+
+    await sendImage(key, res);
+  } catch (error) {
+    next(error);
+  }
+}
+
 export function registerRoutes(app: Express): Server {
+  app.use("/api", auditTrail);
+  app.get("/api/images/:key", serveSignedImage, requireAuth, serveOwnedImage);
+  app.use("/api", requireAuth);
   app.use(router);
   return createServer(app);
 }
@@ -0,0 +1,25 @@
+// Check the audit log's hash chain from the first entry to the last. Exits
+// non-zero if any entry was altered, removed or inserted out of order. Pass the
+// head hash printed by an earlier run to also catch entries cut off the end:
+//
+//   npm run audit:verify [-- <head hash>]
+import { verifyAuditChain } from "./lib/audit";
+
+verifyAuditChain(process.argv[2])
+  .then((result) => {
+    const head = result.head ? `head entry ${result.head.id}, hash ${result.head.hash}` : "empty";
+    if (result.valid) {
+      console.log(`Audit log intact: ${result.checked} entries verified, ${head}`);
+      process.exit(0);
+    }
+    if (!result.brokenAt) {
+      console.error(`Audit log truncated: ${result.reason} (${result.checked} entries verified, ${head})`);
+      process.exit(1);
+    }
+    console.error(`Audit log broken at entry ${result.brokenAt}: ${result.reason} (${result.checked} entries verified before it)`);
+    process.exit(1);
+  })
+  .catch((error) => {
+    console.error("Audit log verification failed:", error);
+    process.exit(1);
+  });